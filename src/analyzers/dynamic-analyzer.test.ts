@@ -0,0 +1,269 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import type { DynamicAnalyzer as DynamicAnalyzerClass } from './dynamic-analyzer.js';
+
+/** HTML served per URL by the stubbed browser. */
+let site: Record<string, string> = {};
+
+/** A Playwright page backed by jsdom, so the real axe-core build runs without a browser. */
+class StubPage {
+  private dom = new JSDOM('');
+
+  setDefaultTimeout(): void {}
+  setDefaultNavigationTimeout(): void {}
+
+  async goto(url: string): Promise<void> {
+    const html = site[url];
+    if (html === undefined) throw new Error(`net::ERR_NAME_NOT_RESOLVED at ${url}`);
+    this.dom = new JSDOM(html, { url, runScripts: 'outside-only', pretendToBeVisual: true, virtualConsole: new VirtualConsole() });
+  }
+
+  url(): string {
+    return this.dom.window.location.href;
+  }
+
+  async evaluate(script: string | ((arg: any) => unknown), arg?: unknown): Promise<any> {
+    return typeof script === 'string'
+      ? this.dom.window.eval(script)
+      : (this.dom.window.eval(`(${script})`) as (arg: unknown) => unknown)(arg);
+  }
+
+  async $$eval(selector: string, callback: (elements: Element[]) => unknown): Promise<any> {
+    const run = this.dom.window.eval(`(${callback})`) as typeof callback;
+    return run([...this.dom.window.document.querySelectorAll(selector)]);
+  }
+
+  async waitForSelector(selector: string): Promise<void> {
+    this.find(selector);
+  }
+
+  async fill(selector: string, value: string): Promise<void> {
+    const input = this.find(selector, `to fill "${value}"`) as HTMLInputElement;
+    input.value = value;
+  }
+
+  async click(selector: string): Promise<void> {
+    (this.find(selector) as HTMLElement).click();
+  }
+
+  async waitForLoadState(): Promise<void> {}
+  async close(): Promise<void> {}
+
+  private find(selector: string, action = ''): Element {
+    const element = this.dom.window.document.querySelector(selector);
+    if (!element) throw new Error(`Timeout waiting for ${selector}${action ? ` ${action}` : ''}`);
+    return element;
+  }
+}
+
+class StubContext {
+  readonly pages: StubPage[] = [];
+  readonly headers: Record<string, string> = {};
+
+  constructor(readonly options: Record<string, unknown>) {}
+
+  async route(_matches: unknown, handler: (route: unknown) => void): Promise<void> {
+    handler({ request: () => ({ headers: () => ({}) }), continue: ({ headers }: { headers: Record<string, string> }) => Object.assign(this.headers, headers) });
+  }
+
+  async newPage(): Promise<StubPage> {
+    const page = new StubPage();
+    this.pages.push(page);
+    return page;
+  }
+
+  async close(): Promise<void> {}
+}
+
+let context: StubContext;
+const launch = jest.fn(async () => ({
+  newContext: async (options: Record<string, unknown>) => (context = new StubContext(options)),
+  close: async () => undefined
+}));
+jest.unstable_mockModule('playwright', () => ({ chromium: { launch } }));
+
+let DynamicAnalyzer: typeof DynamicAnalyzerClass;
+beforeAll(async () => {
+  ({ DynamicAnalyzer } = await import('./dynamic-analyzer.js'));
+});
+
+describe('DynamicAnalyzer', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'a11y-robot-dynamic-'));
+    site = {
+      'https://app.test/': '<!doctype html><html lang="en"><head><title>Home</title></head>' +
+        '<body><main><h1>Home</h1><img src="logo.png"><a href="/orders">Orders</a></main></body></html>'
+    };
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('injects the installed axe-core build and reports its violations', async () => {
+    const result = await new DynamicAnalyzer().analyze({ url: 'https://app.test/', projectPath });
+
+    expect(result.axeVersion).toBe(createRequire(import.meta.url)('axe-core/package.json').version);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ rule: 'image-alt', selector: 'img', url: 'https://app.test/', source: 'dynamic', wcagLevel: 'A' })
+    ]);
+  });
+
+  it('runs axe with the configured rules', async () => {
+    site['https://app.test/'] = site['https://app.test/'].replace('<h1>Home</h1>', '<h1>Home</h1><h3>Details</h3>');
+    await fs.writeJson(path.join(projectPath, '.a11yrobotrc.json'), { rules: { 'image-alt': 'off', 'heading-order': 'serious' } });
+
+    const result = await new DynamicAnalyzer().analyze({ url: 'https://app.test/', projectPath });
+
+    expect(result.issues.map(issue => [issue.rule, issue.severity])).toEqual([['heading-order', 'serious']]);
+  });
+
+  describe('crawl', () => {
+    const page = (title: string, body: string) =>
+      `<!doctype html><html lang="en"><head><title>${title}</title></head><body><main><h1>${title}</h1>${body}</main></body></html>`;
+
+    beforeEach(() => {
+      jest.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 404 }));
+      site = {
+        'https://app.test/': page('Home', '<a href="/orders?sort=date">Orders</a><a href="/admin">Admin</a>' +
+          '<a href="https://elsewhere.test/">Partner</a><span routerlink="/help">Help</span>'),
+        'https://app.test/orders': page('Orders', '<img src="chart.png"><a href="/orders/1">Order 1</a><a href="/">Home</a>'),
+        'https://app.test/orders/1': page('Order 1', '<img src="item.png">'),
+        'https://app.test/admin': page('Admin', '<img src="admin.png">'),
+        'https://app.test/help': page('Help', '<p>Help</p>'),
+        'https://elsewhere.test/': page('Partner', '<img src="partner.png">')
+      };
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('follows same-origin links and records the page of every issue', async () => {
+      const result = await new DynamicAnalyzer().analyze({ url: 'https://app.test/', projectPath, crawl: true, excludeUrls: ['/admin'] });
+
+      expect(result.pages).toEqual(['https://app.test/', 'https://app.test/orders', 'https://app.test/help', 'https://app.test/orders/1']);
+      expect(result.issues.map(issue => [issue.rule, issue.url])).toEqual([
+        ['image-alt', 'https://app.test/orders'],
+        ['image-alt', 'https://app.test/orders/1']
+      ]);
+    });
+
+    it('stops at maxPages and maxDepth', async () => {
+      const limited = await new DynamicAnalyzer().analyze({ url: 'https://app.test/', projectPath, crawl: true, maxPages: 2 });
+      expect(limited.pages).toEqual(['https://app.test/', 'https://app.test/orders']);
+
+      const shallow = await new DynamicAnalyzer().analyze({ url: 'https://app.test/', projectPath, crawl: true, maxDepth: 1 });
+      expect(shallow.pages).toEqual(['https://app.test/', 'https://app.test/orders', 'https://app.test/admin', 'https://app.test/help']);
+    });
+  });
+
+  describe('authentication', () => {
+    beforeEach(() => {
+      process.env.A11Y_ROBOT_TEST_PASSWORD = 'hunter2';
+      site['https://app.test/login'] = '<form><input id="user"><input id="password" type="password"><button id="submit">Sign in</button></form>';
+    });
+
+    afterEach(() => {
+      delete process.env.A11Y_ROBOT_TEST_PASSWORD;
+      jest.restoreAllMocks();
+    });
+
+    it('signs the shared context in before the first page', async () => {
+      await fs.writeJson(path.join(projectPath, 'auth.json'), { cookies: [], origins: [] });
+
+      await new DynamicAnalyzer().analyze({
+        url: 'https://app.test/',
+        projectPath,
+        auth: {
+          storageState: 'auth.json',
+          headers: { 'X-Api-Key': 'key-123' },
+          login: {
+            url: '/login',
+            steps: [
+              { action: 'fill', selector: '#user', value: 'ada' },
+              { action: 'fill', selector: '#password', value: '${env:A11Y_ROBOT_TEST_PASSWORD}' },
+              { action: 'click', selector: '#submit' }
+            ]
+          }
+        }
+      });
+
+      expect(context.options).toEqual(expect.objectContaining({ storageState: path.join(projectPath, 'auth.json') }));
+      expect(context.headers).toEqual({ 'x-api-key': 'key-123' });
+      expect(context.pages.map(page => page.url())).toEqual(['https://app.test/login', 'https://app.test/']);
+    });
+
+    it('masks secrets in logs and in the reported error', async () => {
+      const output = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const analysis = new DynamicAnalyzer().analyze({
+        url: 'https://app.test/',
+        projectPath,
+        auth: { login: { url: '/login', steps: [{ action: 'fill', selector: '#pin', value: '${env:A11Y_ROBOT_TEST_PASSWORD}' }] } }
+      });
+
+      await expect(analysis).rejects.toThrow('Login failed at step 1 (fill #pin): Timeout waiting for #pin to fill "***"');
+      expect(JSON.stringify(output.mock.calls)).not.toContain('hunter2');
+    });
+  });
+
+  describe('user flows', () => {
+    beforeEach(() => {
+      process.env.A11Y_ROBOT_TEST_TOKEN = 'token-123';
+      site['https://app.test/orders'] = '<!doctype html><html lang="en"><head><title>Orders</title></head>' +
+        '<body><main><h1>Orders</h1><img src="chart.png"></main></body></html>';
+    });
+
+    afterEach(() => {
+      delete process.env.A11Y_ROBOT_TEST_TOKEN;
+      jest.restoreAllMocks();
+    });
+
+    it('audits every checkpoint and tags its issues with the scenario and step', async () => {
+      const result = await new DynamicAnalyzer().analyzeUserFlow({
+        url: 'https://app.test/',
+        projectPath,
+        scenarios: [
+          { name: 'Orders', steps: [{ action: 'audit', selector: 'main' }, { action: 'goto', url: '/orders' }, { action: 'audit' }] },
+          { name: 'Home', url: '/', steps: [{ action: 'audit' }] }
+        ]
+      });
+
+      expect(result.issues.map(issue => [issue.id, issue.scenario, issue.step, issue.url])).toEqual([
+        ['axe-image-alt-0-0-0', 'Orders', 1, 'https://app.test/'],
+        ['axe-image-alt-0-0-1', 'Orders', 3, 'https://app.test/orders'],
+        ['axe-image-alt-0-0-0', 'Home', 1, 'https://app.test/']
+      ]);
+      expect(result.pages).toEqual(['https://app.test/', 'https://app.test/orders']);
+      expect(result.flows).toEqual([{ scenario: 'Orders', audits: 2 }, { scenario: 'Home', audits: 1 }]);
+    });
+
+    it('ends only the scenario whose step fails, masking secrets in the report and logs', async () => {
+      const output = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await new DynamicAnalyzer().analyzeUserFlow({
+        url: 'https://app.test/',
+        projectPath,
+        auth: { headers: { 'X-Api-Key': '${env:A11Y_ROBOT_TEST_TOKEN}' } },
+        scenarios: [
+          { name: 'Search', steps: [{ action: 'audit' }, { action: 'fill', selector: '#search', value: 'token-123' }, { action: 'audit' }] },
+          { name: 'Orders', url: '/orders', steps: [{ action: 'audit' }] }
+        ]
+      });
+
+      expect(result.flows).toEqual([
+        { scenario: 'Search', audits: 1, failedStep: 2, error: 'Timeout waiting for #search to fill "***"' },
+        { scenario: 'Orders', audits: 1 }
+      ]);
+      expect(result.issues.map(issue => [issue.scenario, issue.step])).toEqual([['Search', 1], ['Orders', 1]]);
+      expect(JSON.stringify(output.mock.calls)).not.toContain('token-123');
+    });
+  });
+});
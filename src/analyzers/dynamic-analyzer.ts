@@ -1,46 +1,82 @@
 import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import fs from 'fs-extra';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { ConfigLoader, resolveRuleSettings, resolveTargetLevel } from '../services/config-loader.js';
+import { SiteCrawler } from '../services/site-crawler.js';
+import { Authenticator } from '../services/authenticator.js';
+import { ScenarioLoader } from '../services/scenario-loader.js';
+import { KeyboardAuditor } from './keyboard-auditor.js';
 import { logger } from '../utils/logger.js';
-import type { DynamicAnalysisOptions, AnalysisResult, AccessibilityIssue } from '../types/index.js';
+import type {
+  DynamicAnalysisOptions,
+  AnalysisResult,
+  AccessibilityIssue,
+  A11yRobotConfig,
+  FlowResult,
+  KeyboardAuditResult,
+  UserFlowOptions,
+  UserFlowScenario,
+  UserFlowStep
+} from '../types/index.js';
+
+interface PageAnalysis {
+  /** The page's URL after redirects. */
+  url: string;
+  issues: AccessibilityIssue[];
+  /** Absolute URLs of the page's links, collected when crawling. */
+  links: string[];
+  keyboard?: KeyboardAuditResult;
+}
+
+const crawlUserAgent = 'a11y-robot';
+
+const axeLevelTags: Record<'A' | 'AA' | 'AAA', string[]> = {
+  A: ['wcag2a', 'wcag21a', 'wcag22a'],
+  AA: ['wcag2aa', 'wcag21aa', 'wcag22aa'],
+  AAA: ['wcag2aaa']
+};
 
 export class DynamicAnalyzer {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
+  private config: A11yRobotConfig = {};
+  private axeSource = '';
+  private axeVersion: string | undefined;
+  private authenticator: Authenticator | undefined;
+  private readonly configLoader = new ConfigLoader();
+  private readonly scenarioLoader = new ScenarioLoader();
+  private readonly keyboardAuditor = new KeyboardAuditor();
 
   async analyze(options: DynamicAnalysisOptions): Promise<AnalysisResult> {
+    const authenticator = options.auth ? new Authenticator(options.auth, path.resolve(options.projectPath || process.cwd())) : undefined;
+
     try {
       logger.info(`Starting dynamic analysis of: ${options.url}`);
 
-      // Launch browser with accessibility settings
-      this.browser = await chromium.launch({
-        headless: true,
-        args: [
-          '--force-prefers-reduced-motion',
-          '--disable-web-security',
-          '--disable-features=TranslateUI',
-          '--no-sandbox'
-        ]
-      });
+      const configPath = await this.startBrowser(options, options.url, authenticator);
 
-      // Create context with accessibility-friendly settings
-      this.context = await this.browser.newContext({
-        reducedMotion: 'reduce',
-        colorScheme: 'light',
-        viewport: { width: 1280, height: 720 },
-        userAgent: 'A11y-Robot/1.0.0 (Accessibility Analysis Tool)'
-      });
+      const allIssues: AccessibilityIssue[] = [];
+      const analyzedPages: string[] = [];
+      const keyboard: KeyboardAuditResult[] = [];
+      const collect = (page: PageAnalysis) => {
+        allIssues.push(...page.issues);
+        analyzedPages.push(page.url);
+        if (page.keyboard) keyboard.push(page.keyboard);
+      };
 
-      // Analyze main page
-      const mainPageIssues = await this.analyzePage(options.url, options);
-      let allIssues: AccessibilityIssue[] = [...mainPageIssues];
+      if (options.crawl) {
+        await this.crawl(options, collect);
+      } else {
+        // Analyze main page
+        collect(await this.analyzePage(options.url, options));
 
-      // Analyze additional pages if specified
-      if (options.pages && options.pages.length > 0) {
-        for (const pageUrl of options.pages) {
+        // Analyze additional pages if specified
+        for (const pageUrl of options.pages || []) {
           try {
-            const pageIssues = await this.analyzePage(pageUrl, options);
-            allIssues.push(...pageIssues);
+            collect(await this.analyzePage(pageUrl, options));
           } catch (error) {
-            logger.warn(`Failed to analyze page ${pageUrl}:`, error);
+            logger.warn(`Failed to analyze page ${pageUrl}: ${this.errorMessage(error)}`);
           }
         }
       }
@@ -53,21 +89,232 @@ export class DynamicAnalyzer {
         summary,
         analysisType: 'dynamic',
         timestamp: new Date().toISOString(),
-        url: options.url
+        url: options.url,
+        ...(configPath ? { configPath } : {}),
+        ...(this.axeVersion ? { axeVersion: this.axeVersion } : {}),
+        pages: analyzedPages,
+        ...(options.keyboard ? { keyboard } : {})
       };
 
       logger.info(`Dynamic analysis completed. Found ${allIssues.length} issues.`);
       return result;
 
     } catch (error) {
-      logger.error('Dynamic analysis failed:', error);
-      throw error;
+      const failure = authenticator ? authenticator.redact(error) : error;
+      logger.error('Dynamic analysis failed:', failure);
+      throw failure;
     } finally {
       await this.cleanup();
     }
   }
 
-  private async analyzePage(url: string, options: DynamicAnalysisOptions): Promise<AccessibilityIssue[]> {
+  /**
+   * Runs user-flow scenarios, each in a fresh page of one (signed-in) browser session, and
+   * audits the application at every `audit` step. A failing step ends only its scenario.
+   */
+  async analyzeUserFlow(options: UserFlowOptions): Promise<AnalysisResult> {
+    const authenticator = options.auth ? new Authenticator(options.auth, path.resolve(options.projectPath || process.cwd())) : undefined;
+
+    try {
+      const scenarios = options.scenarios
+        ? this.scenarioLoader.parse(options.scenarios, 'scenarios')
+        : options.scenarioPath
+          ? await this.scenarioLoader.loadFile(options.scenarioPath, options.projectPath)
+          : [];
+      if (scenarios.length === 0) {
+        throw new Error('Provide scenarios or a scenarioPath');
+      }
+
+      const startUrl = options.url ?? scenarios.find(scenario => scenario.url)?.url;
+      if (!startUrl || !/^https?:\/\//i.test(startUrl)) {
+        throw new Error('Provide an absolute url, in the options or as the first scenario url');
+      }
+      logger.info(`Starting user-flow analysis of ${scenarios.length} scenarios on: ${startUrl}`);
+
+      const configPath = await this.startBrowser(options, startUrl, authenticator);
+
+      const issues: AccessibilityIssue[] = [];
+      const pages: string[] = [];
+      const flows: FlowResult[] = [];
+      for (const scenario of scenarios) {
+        flows.push(await this.runScenario(scenario, startUrl, options.timeout || 30000, issues, pages));
+      }
+
+      const result: AnalysisResult = {
+        issues,
+        summary: this.calculateSummary(issues),
+        analysisType: 'dynamic',
+        timestamp: new Date().toISOString(),
+        url: startUrl,
+        ...(configPath ? { configPath } : {}),
+        ...(this.axeVersion ? { axeVersion: this.axeVersion } : {}),
+        pages: [...new Set(pages)],
+        flows
+      };
+
+      logger.info(`User-flow analysis completed. Found ${issues.length} issues in ${flows.length} scenarios.`);
+      return result;
+
+    } catch (error) {
+      const failure = authenticator ? authenticator.redact(error) : error;
+      logger.error('User-flow analysis failed:', failure);
+      throw failure;
+    } finally {
+      await this.cleanup();
+    }
+  }
+
+  /**
+   * Loads the configuration and axe-core, launches the browser and creates the shared
+   * context, signed in once when `authenticator` is given. Returns the configuration path.
+   */
+  private async startBrowser(
+    options: { projectPath?: string; configPath?: string; timeout?: number },
+    url: string,
+    authenticator?: Authenticator
+  ): Promise<string | undefined> {
+    const { config, path: configPath } = await this.configLoader.load(options.projectPath, options.configPath);
+    this.config = config;
+    this.axeSource = await this.loadAxeSource(config, configPath);
+    this.axeVersion = undefined;
+    this.authenticator = authenticator;
+
+    // Launch browser with accessibility settings
+    this.browser = await chromium.launch({
+      headless: true,
+      args: [
+        '--force-prefers-reduced-motion',
+        '--disable-web-security',
+        '--disable-features=TranslateUI',
+        '--no-sandbox'
+      ]
+    });
+
+    // Create context with accessibility-friendly settings
+    this.context = await this.browser.newContext({
+      reducedMotion: 'reduce',
+      colorScheme: 'light',
+      viewport: { width: 1280, height: 720 },
+      userAgent: 'A11y-Robot/1.0.0 (Accessibility Analysis Tool)',
+      ...(authenticator ? await authenticator.contextOptions() : {})
+    });
+
+    // Sign in once; every page shares the context's session
+    if (authenticator) {
+      await authenticator.apply(this.context, url, options.timeout || 30000);
+    }
+
+    return configPath;
+  }
+
+  private async runScenario(
+    scenario: UserFlowScenario,
+    baseUrl: string,
+    timeout: number,
+    issues: AccessibilityIssue[],
+    pages: string[]
+  ): Promise<FlowResult> {
+    if (!this.context) {
+      throw new Error('Browser context not initialized');
+    }
+
+    const page = await this.context.newPage();
+    page.setDefaultTimeout(timeout);
+    page.setDefaultNavigationTimeout(timeout);
+    let audits = 0;
+
+    try {
+      logger.info(`Running scenario: ${scenario.name}`);
+      await page.goto(new URL(scenario.url ?? baseUrl, baseUrl).href, { waitUntil: 'networkidle' });
+
+      for (const [index, step] of scenario.steps.entries()) {
+        try {
+          if (step.action === 'audit') {
+            const found = await this.auditPage(page, step.selector);
+            issues.push(...found.map(issue => ({ ...issue, id: `${issue.id}-${audits}`, scenario: scenario.name, step: index + 1 })));
+            pages.push(page.url());
+            audits++;
+          } else {
+            await this.runStep(page, step, baseUrl);
+          }
+        } catch (error) {
+          const message = this.errorMessage(error);
+          logger.warn(`Scenario "${scenario.name}" failed at step ${index + 1} (${step.action}): ${message}`);
+          return { scenario: scenario.name, audits, failedStep: index + 1, error: message };
+        }
+      }
+
+      return { scenario: scenario.name, audits };
+    } catch (error) {
+      const message = this.errorMessage(error);
+      logger.warn(`Scenario "${scenario.name}" could not open its page: ${message}`);
+      return { scenario: scenario.name, audits, error: message };
+    } finally {
+      await page.close();
+    }
+  }
+
+  private async runStep(page: Page, step: Exclude<UserFlowStep, { action: 'audit' }>, baseUrl: string): Promise<void> {
+    switch (step.action) {
+      case 'goto':
+        await page.goto(new URL(step.url, baseUrl).href, { waitUntil: 'networkidle' });
+        break;
+      case 'click':
+        await page.click(step.selector);
+        break;
+      case 'fill':
+        await page.fill(step.selector, step.value);
+        break;
+      case 'press':
+        if (step.selector) await page.press(step.selector, step.key);
+        else await page.keyboard.press(step.key);
+        break;
+      case 'hover':
+        await page.hover(step.selector);
+        break;
+      case 'waitFor':
+        if (step.url) await page.waitForURL(step.url);
+        if (step.selector) await page.waitForSelector(step.selector, { state: 'visible' });
+        break;
+    }
+  }
+
+  /**
+   * Analyzes `url` and `pages`, then the same-origin pages they link to, breadth first.
+   * Only the start page failing aborts the analysis.
+   */
+  private async crawl(options: DynamicAnalysisOptions, collect: (page: PageAnalysis) => void): Promise<void> {
+    const crawler = new SiteCrawler(options.url, {
+      maxPages: options.maxPages ?? 20,
+      maxDepth: options.maxDepth ?? 3,
+      ...(options.includeUrls ? { include: options.includeUrls } : {}),
+      ...(options.excludeUrls ? { exclude: options.excludeUrls } : {}),
+      userAgent: crawlUserAgent
+    });
+    await crawler.loadRobotsTxt();
+
+    crawler.add(options.url, 0);
+    for (const pageUrl of options.pages || []) crawler.add(pageUrl, 0);
+
+    let isStartPage = true;
+    let crawled = 0;
+    for (let target = crawler.next(); target; target = crawler.next(), isStartPage = false) {
+      try {
+        const page = await this.analyzePage(target.url, options);
+        collect(page);
+        crawled++;
+        crawler.markSeen(page.url);
+        for (const link of page.links) crawler.add(link, target.depth + 1);
+      } catch (error) {
+        if (isStartPage) throw error;
+        logger.warn(`Failed to analyze page ${target.url}: ${this.errorMessage(error)}`);
+      }
+    }
+
+    logger.info(`Crawled ${crawled} pages from ${options.url}`);
+  }
+
+  private async analyzePage(url: string, options: DynamicAnalysisOptions): Promise<PageAnalysis> {
     if (!this.context) {
       throw new Error('Browser context not initialized');
     }
@@ -92,59 +339,143 @@ export class DynamicAnalyzer {
       // Wait for page to be fully loaded
       await page.waitForLoadState('domcontentloaded');
 
-      // Inject axe-core
-      await this.injectAxeCore(page);
-
-      // Run axe-core analysis
-      logger.info(`Running axe-core analysis on: ${url}`);
-      const axeResults = await page.evaluate(() => {
-        return (window as any).axe.run();
-      });
-
-      // Convert axe results to our format
-      const issues = this.convertAxeResults(axeResults, url);
+      const pageUrl = page.url();
+      const issues = await this.auditPage(page);
+
+      // Anchors, including those rendered by routerLink, and other elements with a static routerLink
+      const links = options.crawl
+        ? await page.$$eval('a[href]:not([download]), [routerlink]:not(a)', elements => elements.map(element =>
+            element instanceof HTMLAnchorElement
+              ? element.href
+              : new URL(element.getAttribute('routerlink') || '', document.baseURI).href))
+        : [];
+
+      // Tab through the page last, since it moves focus and may scroll
+      let keyboard: KeyboardAuditResult | undefined;
+      if (options.keyboard) {
+        try {
+          const audit = await this.keyboardAuditor.audit(page, options.maxTabStops ?? 100);
+          issues.push(...this.applyConfig(audit.issues));
+          keyboard = audit.result;
+        } catch (error) {
+          logger.warn(`Keyboard audit of ${pageUrl} failed: ${this.errorMessage(error)}`);
+        }
+      }
 
-      return issues;
+      return { url: pageUrl, issues, links, ...(keyboard ? { keyboard } : {}) };
 
     } catch (error) {
-      logger.error(`Failed to analyze page ${url}:`, error);
+      logger.error(`Failed to analyze page ${url}: ${this.errorMessage(error)}`);
       throw error;
     } finally {
       await page.close();
     }
   }
 
+  /**
+   * Reads the axe-core build to inject: `axePath` from the configuration (relative to the
+   * configuration file) or the `axe-core` package installed with a11y-robot.
+   */
+  private async loadAxeSource(config: A11yRobotConfig, configPath?: string): Promise<string> {
+    const file = config.axePath
+      ? path.resolve(configPath ? path.dirname(configPath) : process.cwd(), config.axePath)
+      : createRequire(import.meta.url).resolve('axe-core/axe.min.js');
+
+    try {
+      const source = await fs.readFile(file, 'utf8');
+      logger.debug(`Using axe-core from ${file}`);
+      return source;
+    } catch (error) {
+      throw new Error(`Failed to read axe-core from ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /** Runs axe-core on the page's current state, or on the elements matching `selector`. */
+  private async auditPage(page: Page, selector?: string): Promise<AccessibilityIssue[]> {
+    // Inject axe-core
+    await this.injectAxeCore(page);
+
+    // Run axe-core analysis
+    logger.info(`Running axe-core analysis on: ${page.url()}${selector ? ` (${selector})` : ''}`);
+    const axeResults = await page.evaluate(({ runOptions, include }: { runOptions: Record<string, any>; include: string | null }) => {
+      const axe = (window as any).axe;
+      // The shared config may name static rule ids, which axe rejects as unknown
+      if (runOptions.rules) {
+        const known = new Set(axe.getRules().map((rule: any) => rule.ruleId));
+        runOptions.rules = Object.fromEntries(
+          Object.entries(runOptions.rules).filter(([id]) => known.has(id))
+        );
+      }
+      return axe.run(include ?? document, runOptions);
+    }, { runOptions: this.getAxeRunOptions(), include: selector ?? null });
+
+    // Convert axe results to our format
+    return this.applyConfig(this.convertAxeResults(axeResults, page.url()));
+  }
+
   private async injectAxeCore(page: Page): Promise<void> {
+    // Still present when the page changed state without a full navigation
+    if (await page.evaluate(() => typeof (window as any).axe !== 'undefined')) return;
+
     try {
-      // Inject axe-core from CDN
-      await page.addScriptTag({
-        url: 'https://unpkg.com/axe-core@latest/axe.min.js'
-      });
+      // Evaluated rather than added as a script tag, so a Content Security Policy cannot block it
+      await page.evaluate(this.axeSource);
 
-      // Wait for axe to be available
-      await page.waitForFunction(() => typeof (window as any).axe !== 'undefined');
-
-      // Configure axe-core
-      await page.evaluate(() => {
-        (window as any).axe.configure({
-          rules: {
-            'color-contrast': { enabled: true },
-            'keyboard-navigation': { enabled: true },
-            'focus-management': { enabled: true },
-            'aria-usage': { enabled: true },
-            'semantic-structure': { enabled: true }
-          }
-        });
-      });
+      const version = await page.evaluate(() => (window as any).axe?.version as string | undefined);
+      if (!version) {
+        throw new Error('axe-core did not initialize in the page');
+      }
+      this.axeVersion = version;
 
-      logger.debug('Axe-core injected and configured successfully');
+      // Rules are selected per run by getAxeRunOptions(); axe's defaults apply otherwise
+      logger.debug(`Axe-core ${version} injected successfully`);
     } catch (error) {
       logger.error('Failed to inject axe-core:', error);
       throw error;
     }
   }
 
-  private convertAxeResults(axeResults: any, _url: string): AccessibilityIssue[] {
+  /**
+   * Translates the project configuration into axe-core run options: disabled rules
+   * are turned off and a target level restricts axe to the matching WCAG tags.
+   */
+  private getAxeRunOptions(): Record<string, unknown> {
+    const runOptions: Record<string, unknown> = {};
+    const settings = resolveRuleSettings(this.config);
+
+    const rules = Object.fromEntries(
+      Object.entries(settings).map(([id, setting]) => [id, { enabled: setting.enabled !== false }])
+    );
+    if (Object.keys(rules).length > 0) runOptions.rules = rules;
+
+    const targetLevel = resolveTargetLevel(this.config);
+    if (targetLevel) {
+      const levels = (['A', 'AA', 'AAA'] as const).slice(0, ['A', 'AA', 'AAA'].indexOf(targetLevel) + 1);
+      runOptions.runOnly = { type: 'tag', values: levels.flatMap(level => axeLevelTags[level]) };
+    }
+
+    return runOptions;
+  }
+
+  private applyConfig(issues: AccessibilityIssue[]): AccessibilityIssue[] {
+    const settings = resolveRuleSettings(this.config);
+    const targetLevel = resolveTargetLevel(this.config);
+    const levels = ['A', 'AA', 'AAA'];
+
+    return issues
+      .filter(issue => settings[issue.rule]?.enabled !== false)
+      .map(issue => {
+        const setting = settings[issue.rule];
+        return {
+          ...issue,
+          ...(setting?.severity ? { severity: setting.severity } : {}),
+          ...(setting?.wcagLevel ? { wcagLevel: setting.wcagLevel } : {})
+        };
+      })
+      .filter(issue => !targetLevel || levels.indexOf(issue.wcagLevel) <= levels.indexOf(targetLevel));
+  }
+
+  private convertAxeResults(axeResults: any, url: string): AccessibilityIssue[] {
     const issues: AccessibilityIssue[] = [];
 
     // Process violations
@@ -165,6 +496,7 @@ export class DynamicAnalyzer {
             wcagUrl: violation.helpUrl,
             element: node.html,
             selector: node.target.join(', '),
+            url,
             source: 'dynamic'
           });
         });
@@ -185,12 +517,13 @@ export class DynamicAnalyzer {
   }
 
   private extractWcagInfo(tags: string[]): { level: 'A' | 'AA' | 'AAA'; criterion: string } {
-    const wcagTag = tags.find(tag => tag.startsWith('wcag'));
+    // Level tags look like "wcag2aa"/"wcag21a", criterion tags like "wcag143"
+    const levelTag = tags.map(tag => tag.match(/^wcag\d+(a+)$/)).find(Boolean);
     
-    if (wcagTag) {
-      const parts = wcagTag.split('');
-      const level = parts.filter(p => p === 'a').length;
-      const criterion = tags.find(tag => tag.match(/^\d+\.\d+\.\d+$/)) || 'Unknown';
+    if (levelTag) {
+      const level = levelTag[1].length;
+      const criterionTag = tags.map(tag => tag.match(/^wcag(\d)(\d)(\d+)$/)).find(Boolean);
+      const criterion = criterionTag ? `${criterionTag[1]}.${criterionTag[2]}.${criterionTag[3]}` : 'Unknown';
       
       return {
         level: level === 1 ? 'A' : level === 2 ? 'AA' : 'AAA',
@@ -201,6 +534,12 @@ export class DynamicAnalyzer {
     return { level: 'AA', criterion: 'Unknown' };
   }
 
+  /** The error's message with the session's secrets masked, for logs and reports. */
+  private errorMessage(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    return this.authenticator ? this.authenticator.redactText(message) : message;
+  }
+
   private calculateSummary(issues: AccessibilityIssue[]) {
     const summary = {
       total: issues.length,
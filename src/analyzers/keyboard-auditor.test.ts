@@ -0,0 +1,178 @@
+import { describe, expect, it } from '@jest/globals';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import type { Page } from 'playwright';
+import { KeyboardAuditor } from './keyboard-auditor.js';
+
+const tabbable = 'a[href], button, input, select, textarea, [tabindex]';
+
+/**
+ * A Playwright page backed by jsdom, which has no layout or sequential focus navigation:
+ * every element gets the same box, and Tab moves focus through the tabbable elements in
+ * document order (one per radio group) unless a keydown listener prevents it.
+ */
+function tabPage(html: string, { wrap = false } = {}) {
+  const dom = new JSDOM(`<!doctype html><html><body>${html}</body></html>`, {
+    url: 'https://app.test/',
+    runScripts: 'outside-only',
+    pretendToBeVisual: true,
+    virtualConsole: new VirtualConsole()
+  });
+  const { window } = dom;
+  const { document } = window;
+  const box = { x: 10, y: 10, width: 100, height: 20, top: 10, left: 10, right: 110, bottom: 30 };
+  window.Element.prototype.getBoundingClientRect = () => ({ ...box, toJSON: () => box }) as DOMRect;
+  window.Element.prototype.checkVisibility = () => true;
+  Object.assign(window, { CSS: { escape: (value: string) => value } });
+  Object.defineProperty(document.documentElement, 'scrollWidth', { value: 1280 });
+  Object.defineProperty(document.documentElement, 'scrollHeight', { value: 2000 });
+
+  const tabOrder = () => [...document.querySelectorAll<HTMLElement>(tabbable)].filter(element => {
+    if (element.matches(':disabled') || element.getAttribute('tabindex') === '-1') return false;
+    if (!(element instanceof window.HTMLInputElement) || element.type !== 'radio' || !element.name) return true;
+    const group = [...document.querySelectorAll<HTMLInputElement>(`input[type="radio"][name="${element.name}"]`)];
+    return element === (group.find(radio => radio.checked) ?? group[0]);
+  });
+
+  const page = {
+    url: () => window.location.href,
+    viewportSize: () => ({ width: 1280, height: 720 }),
+    evaluate: async (script: (arg: unknown) => unknown, arg?: unknown) =>
+      (window.eval(`(${script})`) as (arg: unknown) => unknown)(arg),
+    // The focus ring is the only visual change; elements with class "no-ring" have none
+    screenshot: async () => {
+      const active = document.activeElement;
+      return Buffer.from(active && active !== document.body && !active.matches('.no-ring') ? 'ring' : 'plain');
+    },
+    keyboard: {
+      press: async (key: string) => {
+        const active = document.activeElement instanceof window.HTMLElement ? document.activeElement : document.body;
+        const event = new window.KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+        if (!active.dispatchEvent(event)) return;
+
+        const order = tabOrder();
+        const next = order[order.indexOf(active) + 1] ?? (wrap ? order[0] : undefined);
+        if (next) next.focus();
+        else active.blur();
+      }
+    }
+  };
+  return { page: page as unknown as Page, document };
+}
+
+/** Makes Tab on `from` move focus to `to` (or keep it on `from`). */
+function trapTab(document: Document, from: string, to = from): void {
+  document.querySelector(from)!.addEventListener('keydown', event => {
+    if ((event as KeyboardEvent).key !== 'Tab') return;
+    event.preventDefault();
+    document.querySelector<HTMLElement>(to)!.focus();
+  });
+}
+
+describe('KeyboardAuditor', () => {
+  const auditor = new KeyboardAuditor();
+
+  it('records the focus order and completes when focus leaves the page', async () => {
+    const { page } = tabPage('<a id="home" href="/">Home</a><input id="search"><button id="go">Go</button>');
+
+    const { result, issues } = await auditor.audit(page, 100);
+
+    expect(result).toEqual({
+      url: 'https://app.test/',
+      completed: true,
+      focusOrder: ['#home', '#search', '#go'].map(selector => expect.objectContaining({ selector, box: { x: 10, y: 10, width: 100, height: 20 } }))
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('completes when focus wraps around to the first stop', async () => {
+    const { page } = tabPage('<a id="home" href="/">Home</a><button id="go">Go</button>', { wrap: true });
+
+    const { result, issues } = await auditor.audit(page, 100);
+
+    expect(result.completed).toBe(true);
+    expect(result.focusOrder.map(stop => stop.selector)).toEqual(['#home', '#go']);
+    expect(issues).toEqual([]);
+  });
+
+  it('reports an element that keeps focus on Tab', async () => {
+    const { page, document } = tabPage('<a id="home" href="/">Home</a><div id="editor" tabindex="0">Edit</div><button id="save">Save</button>');
+    trapTab(document, '#editor');
+
+    const { result, issues } = await auditor.audit(page, 100);
+
+    expect(result.completed).toBe(false);
+    expect(issues).toEqual([expect.objectContaining({
+      rule: 'keyboard-trap',
+      selector: '#editor',
+      helpText: expect.stringMatching(/^Focus stays on this element when Tab is pressed\./)
+    })]);
+  });
+
+  it('reports Tab cycling through part of the page and skips the reachability check', async () => {
+    const { page, document } = tabPage(
+      '<a id="home" href="/">Home</a><div id="widget"><button id="first">First</button><button id="last">Last</button></div>' +
+      '<button id="footer">Footer</button>'
+    );
+    trapTab(document, '#last', '#first');
+
+    const { result, issues } = await auditor.audit(page, 100);
+
+    expect(result.completed).toBe(false);
+    expect(result.focusOrder.map(stop => stop.selector)).toEqual(['#home', '#first', '#last']);
+    expect(issues).toEqual([expect.objectContaining({
+      rule: 'keyboard-trap',
+      selector: '#first',
+      helpText: expect.stringMatching(/^Tab cycles through 2 elements and never reaches the rest of the page\./)
+    })]);
+  });
+
+  it('does not report modal dialogs for confining focus', async () => {
+    const { page: stuckPage, document: stuckDocument } = tabPage(
+      '<div role="dialog" aria-modal="true"><input id="name"><button id="ok">OK</button></div>'
+    );
+    trapTab(stuckDocument, '#name');
+    const stuck = await auditor.audit(stuckPage, 100);
+    expect(stuck.issues).toEqual([]);
+    expect(stuck.result.completed).toBe(false);
+
+    const { page: cyclingPage, document: cyclingDocument } = tabPage(
+      '<a id="skip" href="#main">Skip</a><div role="dialog" aria-modal="true"><input id="name"><button id="ok">OK</button></div>'
+    );
+    trapTab(cyclingDocument, '#ok', '#name');
+    const cycling = await auditor.audit(cyclingPage, 100);
+    expect(cycling.issues).toEqual([]);
+    expect(cycling.result.completed).toBe(false);
+    expect(cycling.result.focusOrder.map(stop => stop.selector)).toEqual(['#skip', '#name', '#ok']);
+  });
+
+  it('counts radio groups and composite widgets as reached through their single tab stop', async () => {
+    const { page } = tabPage(
+      '<form id="order">' +
+      '<input type="radio" id="small" name="size"><input type="radio" id="medium" name="size" checked><input type="radio" id="large" name="size">' +
+      '</form>' +
+      '<div role="tablist"><button role="tab" id="details">Details</button><button role="tab" id="reviews" tabindex="-1">Reviews</button></div>' +
+      '<ul role="listbox" id="colors" tabindex="0"><li role="option" id="red">Red</li><li role="option" id="blue">Blue</li></ul>' +
+      '<div role="toolbar"><button id="bold">Bold</button><button id="italic" tabindex="-1">Italic</button></div>'
+    );
+
+    const { result, issues } = await auditor.audit(page, 100);
+
+    expect(result.completed).toBe(true);
+    expect(result.focusOrder.map(stop => stop.selector)).toEqual(['#medium', '#details', '#colors', '#bold']);
+    expect(issues).toEqual([]);
+  });
+
+  it('reports interactive elements Tab never reaches and focus without a visible change', async () => {
+    const { page } = tabPage(
+      '<a id="home" href="/">Home</a><button id="plain" class="no-ring">Plain</button>' +
+      '<div id="menu" role="button" tabindex="-1">Menu</div><h2 id="title" tabindex="-1">Title</h2>'
+    );
+
+    const { issues } = await auditor.audit(page, 100);
+
+    expect(issues.map(issue => [issue.rule, issue.selector])).toEqual([
+      ['focus-visible', '#plain'],
+      ['keyboard-unreachable', '#menu']
+    ]);
+  });
+});
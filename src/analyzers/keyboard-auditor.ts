@@ -0,0 +1,243 @@
+import type { Page } from 'playwright';
+import { getRuleById } from '../rules/index.js';
+import { logger } from '../utils/logger.js';
+import type { AccessibilityIssue, FocusStop, KeyboardAuditResult } from '../types/index.js';
+
+/** An element as described in the page. */
+interface ElementState {
+  selector: string;
+  element: string;
+  /** Radio buttons of one group share a key, since the group is a single tab stop. */
+  group: string;
+  /** Page coordinates. */
+  box: FocusStop['box'];
+  /** Viewport coordinates, for screenshots. */
+  viewportBox: FocusStop['box'];
+  hidden: boolean;
+  offscreen: boolean;
+}
+
+interface FocusState extends ElementState {
+  frame: boolean;
+  modal: boolean;
+}
+
+export interface KeyboardAudit {
+  result: KeyboardAuditResult;
+  issues: AccessibilityIssue[];
+}
+
+// Room around the element for outlines and focus rings drawn outside its box
+const indicatorMargin = 8;
+
+/**
+ * Tabs through a page with real keyboard events, recording the focus order, and reports
+ * keyboard traps (2.1.2), focus on invisible or offscreen elements (2.4.3), focus
+ * without a visual change (2.4.7) and interactive elements Tab never reaches (2.1.1).
+ */
+export class KeyboardAuditor {
+  async audit(page: Page, maxStops: number): Promise<KeyboardAudit> {
+    const url = page.url();
+    const issues: AccessibilityIssue[] = [];
+    const report = (ruleId: string, state: ElementState, detail: string) => {
+      const rule = getRuleById(ruleId);
+      if (!rule) return;
+      issues.push({
+        id: `keyboard-${rule.id}-${issues.length}`,
+        rule: rule.id,
+        severity: rule.severity,
+        wcagLevel: rule.wcagLevel,
+        wcagCriterion: rule.wcagCriterion,
+        description: rule.description,
+        helpText: `${detail} ${rule.message}`,
+        wcagUrl: rule.helpUrl,
+        element: state.element,
+        selector: state.selector,
+        url,
+        source: 'dynamic'
+      });
+    };
+
+    await this.installHelpers(page);
+    const candidates = await page.evaluate(() => (window as any).__a11yRobotKeyboard.candidates() as ElementState[]);
+    await page.evaluate(() => {
+      (document.activeElement as HTMLElement | null)?.blur?.();
+      window.scrollTo(0, 0);
+    });
+
+    const stops: FocusStop[] = [];
+    const reached = new Set<string>();
+    const firstStop = new Map<string, number>();
+    let previous: string | undefined;
+    let completed = false;
+
+    for (let press = 0; press < maxStops; press++) {
+      await page.keyboard.press('Tab');
+      const state = await page.evaluate(() => (window as any).__a11yRobotKeyboard.active() as FocusState | null);
+
+      // Focus left the document (to the browser UI) after the last element
+      if (!state) {
+        completed = true;
+        break;
+      }
+      // Tab moves through an iframe's content while the iframe stays the active element
+      if (state.frame && state.selector === previous) continue;
+
+      if (state.selector === previous) {
+        if (!state.modal) report('keyboard-trap', state, 'Focus stays on this element when Tab is pressed.');
+        break;
+      }
+
+      const first = firstStop.get(state.selector);
+      if (first !== undefined) {
+        // Back at the first stop means Tab went through the whole page; modal dialogs confine focus by design
+        completed = first === 0;
+        if (first > 0 && !state.modal) {
+          report('keyboard-trap', state, `Tab cycles through ${stops.length - first} elements and never reaches the rest of the page.`);
+        }
+        break;
+      }
+
+      firstStop.set(state.selector, stops.length);
+      stops.push({ selector: state.selector, element: state.element, box: state.box });
+      reached.add(state.group);
+      previous = state.selector;
+
+      if (state.hidden || state.offscreen) {
+        report('focus-hidden-element', state, state.hidden
+          ? 'This element receives focus while it is invisible.'
+          : 'This element receives focus while it is positioned outside the page.');
+      } else if (!state.frame && !await this.changesOnFocus(page, state)) {
+        report('focus-visible', state, 'Focusing this element with Tab does not change its appearance.');
+      }
+    }
+
+    if (completed) {
+      for (const candidate of candidates) {
+        if (!reached.has(candidate.group)) {
+          report('keyboard-unreachable', candidate, 'Tab never moves focus to this interactive element.');
+        }
+      }
+    } else {
+      logger.debug(`Keyboard audit of ${url} stopped after ${stops.length} focus stops; reachability not checked`);
+    }
+
+    logger.info(`Keyboard audit of ${url}: ${stops.length} focus stops, ${issues.length} issues`);
+    return { result: { url, focusOrder: stops, completed }, issues };
+  }
+
+  /**
+   * Compares screenshots of the focused element (with a margin) before and after blurring
+   * it, then restores focus so Tab continues from it.
+   */
+  private async changesOnFocus(page: Page, state: FocusState): Promise<boolean> {
+    const viewport = page.viewportSize();
+    const x = Math.max(0, state.viewportBox.x - indicatorMargin);
+    const y = Math.max(0, state.viewportBox.y - indicatorMargin);
+    const right = Math.min(viewport?.width ?? Infinity, state.viewportBox.x + state.viewportBox.width + indicatorMargin);
+    const bottom = Math.min(viewport?.height ?? Infinity, state.viewportBox.y + state.viewportBox.height + indicatorMargin);
+    if (right - x < 1 || bottom - y < 1) return true;
+
+    const clip = { x, y, width: right - x, height: bottom - y };
+    const focused = await page.screenshot({ clip, animations: 'disabled' });
+    await page.evaluate(() => (window as any).__a11yRobotKeyboard.blur());
+    const unfocused = await page.screenshot({ clip, animations: 'disabled' });
+    await page.evaluate(() => (window as any).__a11yRobotKeyboard.refocus());
+    return !focused.equals(unfocused);
+  }
+
+  private async installHelpers(page: Page): Promise<void> {
+    await page.evaluate(() => {
+      const compositeWidgets = '[role="toolbar"], [role="tablist"], [role="menu"], [role="menubar"], [role="listbox"], ' +
+        '[role="grid"], [role="tree"], [role="treegrid"], [role="radiogroup"]';
+      const interactive = 'a[href], button, input:not([type="hidden"]), select, textarea, summary, ' +
+        '[contenteditable=""], [contenteditable="true"], [tabindex], [role="button"], [role="link"], [role="checkbox"], ' +
+        '[role="radio"], [role="switch"], [role="tab"], [role="menuitem"], [role="menuitemcheckbox"], ' +
+        '[role="menuitemradio"], [role="option"], [role="slider"], [role="spinbutton"], [role="combobox"], ' +
+        '[role="textbox"], [role="searchbox"], [role="treeitem"]';
+      const compositeItems = ['tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'treeitem', 'radio', 'gridcell', 'row'];
+      let blurred: HTMLElement | null = null;
+
+      const cssPath = (element: Element): string => {
+        const parts: string[] = [];
+        for (let current: Element | null = element; current && current !== document.documentElement; current = current.parentElement) {
+          if (current.id) {
+            parts.unshift(`#${CSS.escape(current.id)}`);
+            break;
+          }
+          const tag = current.tagName.toLowerCase();
+          const sameTag = current.parentElement
+            ? Array.from(current.parentElement.children).filter(sibling => sibling.tagName === current!.tagName)
+            : [];
+          parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+        }
+        return parts.join(' > ');
+      };
+
+      const describe = (element: Element) => {
+        const rect = element.getBoundingClientRect();
+        const html = element.outerHTML;
+        const startTag = html.slice(0, html.indexOf('>') + 1) || html;
+        const radio = element instanceof HTMLInputElement && element.type === 'radio' && element.name;
+        const page = document.documentElement;
+        return {
+          selector: cssPath(element),
+          element: startTag.length > 200 ? `${startTag.slice(0, 197)}...` : startTag,
+          group: radio ? `radio:${cssPath(element.form ?? document.body)}:${element.name}` : cssPath(element),
+          box: { x: rect.x + window.scrollX, y: rect.y + window.scrollY, width: rect.width, height: rect.height },
+          viewportBox: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+          // Visually hidden (1px, clipped) elements count as invisible
+          hidden: rect.width <= 1 || rect.height <= 1 ||
+            !element.checkVisibility({ checkOpacity: true, checkVisibilityCSS: true }),
+          offscreen: rect.right + window.scrollX <= 0 || rect.bottom + window.scrollY <= 0 ||
+            rect.left + window.scrollX >= page.scrollWidth || rect.top + window.scrollY >= page.scrollHeight
+        };
+      };
+
+      (window as any).__a11yRobotKeyboard = {
+        active() {
+          let element = document.activeElement;
+          while (element?.shadowRoot?.activeElement) element = element.shadowRoot.activeElement;
+          if (!element || element === document.body || element === document.documentElement) return null;
+          return {
+            ...describe(element),
+            frame: element.tagName === 'IFRAME',
+            modal: !!element.closest('[aria-modal="true"], dialog:modal')
+          };
+        },
+
+        /** Visible, enabled interactive elements that should be in the tab order. */
+        candidates() {
+          return Array.from(document.querySelectorAll(interactive))
+            .filter(element => {
+              if (element.matches(':disabled, [aria-disabled="true"], [inert], [inert] *') || element.closest('[aria-hidden="true"]')) {
+                return false;
+              }
+              const tabindex = element.getAttribute('tabindex');
+              const native = element.matches('a[href], button, input, select, textarea, summary');
+              // Items of composite widgets are reached with arrow keys (roving tabindex, aria-activedescendant)
+              if (element.parentElement?.closest(compositeWidgets) &&
+                  (tabindex === '-1' || compositeItems.includes(element.getAttribute('role') || ''))) {
+                return false;
+              }
+              // Non-interactive elements with tabindex="-1" are focus targets for scripts, e.g. headings
+              if (tabindex === '-1' && !native && !element.hasAttribute('role')) return false;
+              return true;
+            })
+            .map(describe)
+            .filter(state => !state.hidden && !state.offscreen);
+        },
+
+        blur() {
+          blurred = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+          blurred?.blur();
+        },
+
+        refocus() {
+          blurred?.focus({ preventScroll: true });
+          blurred = null;
+        }
+      };
+    });
+  }
+}
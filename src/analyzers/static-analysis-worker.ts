@@ -0,0 +1,21 @@
+import { parentPort, workerData } from 'worker_threads';
+import { StaticAnalyzer, type FileAnalysis, type FileAnalysisContext } from './static-analyzer.js';
+
+/**
+ * Worker thread entry for parallel static analysis: receives absolute file paths and
+ * answers each with its FileAnalysis (including the file's log lines).
+ */
+const analyzer = new StaticAnalyzer();
+analyzer.configure(workerData as FileAnalysisContext);
+
+parentPort!.on('message', async (filePath: string) => {
+  const logs: string[] = [];
+  let analysis: FileAnalysis;
+  try {
+    analysis = await analyzer.analyzeSingleFile(filePath, logs);
+  } catch (error) {
+    logs.push(`Failed to analyze file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    analysis = { issues: [] };
+  }
+  parentPort!.postMessage({ ...analysis, logs });
+});
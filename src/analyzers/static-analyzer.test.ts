@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import fs from 'fs-extra';
+import { glob } from 'glob';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { StaticAnalyzer } from './static-analyzer.js';
+import type { AccessibilityIssue, StaticAnalysisOptions } from '../types/index.js';
+
+/**
+ * Transpiles the sources to an ES module build in `outDir`, so worker threads can load
+ * the compiled worker script.
+ */
+async function buildJavaScript(outDir: string): Promise<string> {
+  const srcDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+  for (const file of await glob('**/*.ts', { cwd: srcDir, ignore: ['**/*.test.ts'] })) {
+    const { outputText } = ts.transpileModule(await fs.readFile(path.join(srcDir, file), 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022, esModuleInterop: true }
+    });
+    await fs.outputFile(path.join(outDir, file.replace(/\.ts$/, '.js')), outputText);
+  }
+  await fs.writeJson(path.join(outDir, 'package.json'), { type: 'module' });
+  await fs.symlink(path.resolve(srcDir, '..', 'node_modules'), path.join(outDir, 'node_modules'));
+  return outDir;
+}
+
+describe('StaticAnalyzer', () => {
+  let tmp: string;
+  let repo: string;
+  const git = (...args: string[]) => execFileSync('git', args, {
+    cwd: repo,
+    env: { ...process.env, GIT_AUTHOR_NAME: 'a11y', GIT_AUTHOR_EMAIL: 'a11y@example.com', GIT_COMMITTER_NAME: 'a11y', GIT_COMMITTER_EMAIL: 'a11y@example.com' }
+  });
+  const write = (file: string, content: string) => fs.outputFile(path.join(repo, file), content);
+  const analyze = (options: Partial<StaticAnalysisOptions> = {}) =>
+    new StaticAnalyzer().analyze({ projectPath: repo, concurrency: 1, noCache: true, ...options });
+
+  beforeEach(async () => {
+    tmp = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'a11y-robot-static-')));
+    repo = path.join(tmp, 'repo');
+    await write('src/app.component.ts', [
+      "import { Component } from '@angular/core';",
+      '',
+      "@Component({ selector: 'app-root', templateUrl: './app.component.html', styleUrls: ['./app.component.scss'] })",
+      'export class AppComponent {}'
+    ].join('\n'));
+    await write('src/app.component.html', '<button type="button" class="action">Save</button>\n<img src="logo.png" alt="Logo">\n');
+    await write('src/app.component.scss', '.action { color: #000; }\n');
+    git('init', '--quiet');
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'initial');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  describe('changedSince', () => {
+    it('finds the changes of a project reached through a symlink', async () => {
+      await write('src/app.component.html', '<button type="button" class="action">Save</button>\n<img src="logo.png">\n');
+      const link = path.join(tmp, 'link');
+      await fs.symlink(repo, link);
+
+      const result = await analyze({ projectPath: link, changedSince: 'HEAD', changedLinesOnly: true });
+
+      expect(result.issues.map(issue => [issue.rule, issue.file, issue.line])).toEqual([['img-alt', path.join('src', 'app.component.html'), 2]]);
+    });
+
+    it('reports issues of a changed stylesheet that are moved onto template elements', async () => {
+      await write('src/app.component.scss', '.action { color: #000; }\n.action:focus { outline: none; }\n');
+
+      const result = await analyze({ changedSince: 'HEAD', changedLinesOnly: true });
+
+      expect(result.issues.map(issue => [issue.rule, issue.file, issue.line, issue.origin])).toEqual([[
+        'outline-none-focus',
+        path.join('src', 'app.component.html'),
+        1,
+        { file: path.join('src', 'app.component.scss'), line: 2 }
+      ]]);
+    });
+  });
+
+  describe('suppressions', () => {
+    it('honors suppression comments in the stylesheet an issue comes from', async () => {
+      await write('src/app.component.scss', [
+        '.action { color: #000; }',
+        '// a11y-robot-disable-next-line outline-none-focus -- the button draws its own focus ring',
+        '.action:focus { outline: none; }'
+      ].join('\n'));
+
+      const result = await analyze();
+
+      expect(result.issues).toEqual([]);
+      expect(result.suppressedIssues!.map(issue => [issue.rule, issue.file, issue.suppression])).toEqual([[
+        'outline-none-focus',
+        path.join('src', 'app.component.html'),
+        { justification: 'the button draws its own focus ring', file: path.join('src', 'app.component.scss'), line: 2 }
+      ]]);
+    });
+
+    it('honors suppression comments where an issue is reported', async () => {
+      await write('src/app.component.html', '<!-- a11y-robot-disable-next-line img-alt -- spacer image -->\n<img src="spacer.png">\n');
+
+      const result = await analyze();
+
+      expect(result.issues).toEqual([]);
+      expect(result.suppressedIssues!.map(issue => issue.suppression)).toEqual([
+        { justification: 'spacer image', file: path.join('src', 'app.component.html'), line: 1 }
+      ]);
+    });
+  });
+
+  describe('route titles', () => {
+    it('re-checks cached route files when a TitleStrategy is added or removed', async () => {
+      await write('src/app.routes.ts', "export const routes: Routes = [{ path: 'orders', component: OrdersComponent }];\n");
+      const routeTitles = async () => (await analyze({ noCache: false })).issues.filter(issue => issue.rule === 'route-title').length;
+
+      expect(await routeTitles()).toBe(1);
+
+      await write('src/title-strategy.ts', 'export class PageTitleStrategy extends TitleStrategy {}\n');
+      expect(await routeTitles()).toBe(0);
+
+      await fs.remove(path.join(repo, 'src/title-strategy.ts'));
+      expect(await routeTitles()).toBe(1);
+    });
+  });
+
+  describe('concurrency', () => {
+    const byLocation = (issues: AccessibilityIssue[]) =>
+      issues.map(({ id: _id, ...issue }) => issue).sort((a, b) => `${a.file}:${a.line}:${a.rule}`.localeCompare(`${b.file}:${b.line}:${b.rule}`));
+
+    beforeEach(async () => {
+      for (const name of ['orders', 'profile', 'search']) {
+        await write(`src/${name}/${name}.component.ts`, [
+          "import { Component } from '@angular/core';",
+          '',
+          `@Component({ selector: 'app-${name}', templateUrl: './${name}.component.html' })`,
+          `export class ${name[0].toUpperCase()}${name.slice(1)}Component {}`
+        ].join('\n'));
+        await write(`src/${name}/${name}.component.html`, `<img src="${name}.png">\n<div (click)="open()">${name}</div>\n<input type="text">\n`);
+      }
+    });
+
+    it('finds the same issues on worker threads as in this thread', async () => {
+      // Workers load the compiled worker script, so this runs the analyzer from a JavaScript build
+      const build = await buildJavaScript(path.join(tmp, 'build'));
+      const { StaticAnalyzer: BuiltAnalyzer } = await import(pathToFileURL(path.join(build, 'analyzers', 'static-analyzer.js')).href);
+      const logs: string[] = [];
+
+      const sequential = await analyze();
+      const parallel: Awaited<ReturnType<StaticAnalyzer['analyze']>> =
+        await new BuiltAnalyzer().analyze({ projectPath: repo, concurrency: 2, noCache: true }, logs);
+
+      expect(logs).toContain('Analyzing 4 files on 2 worker threads');
+      expect(logs.join('\n')).not.toContain('sequentially');
+      expect(sequential.issues.length).toBeGreaterThan(3);
+      expect(byLocation(parallel.issues)).toEqual(byLocation(sequential.issues));
+    }, 60000);
+
+    it('analyzes sequentially when the worker script does not load', async () => {
+      // Run from the TypeScript sources, static-analysis-worker.js does not exist
+      const logs: string[] = [];
+
+      const sequential = await analyze();
+      const fallback = await new StaticAnalyzer().analyze({ projectPath: repo, concurrency: 2, noCache: true }, logs);
+
+      expect(logs).toContainEqual(expect.stringMatching(/^Worker failed to start: .*; analyzing 4 files sequentially$/));
+      expect(byLocation(fallback.issues)).toEqual(byLocation(sequential.issues));
+    });
+  });
+});
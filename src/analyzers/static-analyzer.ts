@@ -1,13 +1,75 @@
 import fs from 'fs-extra';
+import * as os from 'os';
 import * as path from 'path';
 import { glob } from 'glob';
-import * as cheerio from 'cheerio';
+import { TemplateParser, type TemplateRange } from '../parsers/template-parser.js';
+import { ComponentParser, type ComponentMetadata } from '../parsers/component-parser.js';
+import { RouteParser } from '../parsers/route-parser.js';
+import { StylesheetParser } from '../parsers/stylesheet-parser.js';
+import { SuppressionParser, type SuppressionRange } from '../parsers/suppression-parser.js';
+import { AutofixService } from '../services/autofix-service.js';
+import { AnalysisCache, type CachedAnalysis, type SourceFacts } from '../services/analysis-cache.js';
+import { RuleEngine } from '../rules/rule-engine.js';
+import { ConfigLoader } from '../services/config-loader.js';
+import { WorkspaceLoader } from '../services/workspace-loader.js';
+import { GitChanges, type ChangedFile, type LineRange } from '../services/git-changes.js';
 import { logger } from '../utils/logger.js';
-import type { StaticAnalysisOptions, AnalysisResult, AccessibilityIssue } from '../types/index.js';
+import { WorkerPool } from '../utils/worker-pool.js';
+import type {
+  A11yRobotConfig,
+  AppDocument,
+  StaticAnalysisOptions,
+  AnalysisResult,
+  AccessibilityIssue,
+  AngularComponent,
+  AngularRoute,
+  AngularStylesheet,
+  AngularTemplate,
+  ProjectResult,
+  TemplateElement,
+  WorkspaceProject,
+} from '../types/index.js';
+
+/** Issues of one analyzed file; without `dependencies` the result is not cached. */
+export interface FileAnalysis {
+  issues: AccessibilityIssue[];
+  dependencies?: string[];
+  owned?: string[];
+  usesGlobalStyles?: boolean;
+  usesTitleStrategy?: boolean;
+  /** Log lines of the file's analysis when it ran in a worker thread. */
+  logs?: string[];
+}
+
+/** What analyzing a single file needs besides the file itself (also sent to worker threads). */
+export interface FileAnalysisContext {
+  projectPath: string;
+  options: StaticAnalysisOptions;
+  config: A11yRobotConfig;
+  globalCustomProperties: Record<string, string>;
+  /** Absolute paths of the applications' index.html files. */
+  documents: string[];
+  /** Whether the workspace replaces Angular's TitleStrategy. */
+  customTitleStrategy: boolean;
+}
 
 export class StaticAnalyzer {
   private readonly defaultIncludePatterns = ['**/*.ts', '**/*.html', '**/*.scss', '**/*.css'];
   private readonly defaultExcludePatterns = ['node_modules/**', 'dist/**', '**/*.spec.ts', '**/*.test.ts'];
+  private readonly templateParser = new TemplateParser();
+  private readonly componentParser = new ComponentParser();
+  private readonly routeParser = new RouteParser();
+  private readonly stylesheetParser = new StylesheetParser();
+  private readonly suppressionParser = new SuppressionParser();
+  private readonly autofixService = new AutofixService();
+  private readonly configLoader = new ConfigLoader();
+  private readonly workspaceLoader = new WorkspaceLoader();
+  private readonly gitChanges = new GitChanges();
+  private ruleEngine = new RuleEngine();
+  private globalCustomProperties: Record<string, string> = {};
+  private projectPath = '';
+  private documents = new Set<string>();
+  private customTitleStrategy = false;
 
   async analyze(
     options: StaticAnalysisOptions,
@@ -19,37 +81,150 @@ export class StaticAnalyzer {
 
       if (logCollector) logCollector.push(`ProjectPath ${options.projectPath}`);
 
-      const includePatterns = options.includePatterns || this.defaultIncludePatterns;
-      const excludePatterns = options.excludePatterns || this.defaultExcludePatterns;
+      const { config, path: configPath } = await this.configLoader.load(options.projectPath, options.configPath);
+      if (logCollector) logCollector.push(configPath ? `Using configuration: ${configPath}` : 'No configuration file found, using defaults');
+
+      this.ruleEngine = RuleEngine.fromSelection(options, config);
+      if (logCollector) logCollector.push(`Running ${this.ruleEngine.getRules().length} accessibility rules`);
+
+      const includePatterns = options.includePatterns || config.includePatterns || this.defaultIncludePatterns;
+      const excludePatterns = options.excludePatterns || config.excludePatterns || this.defaultExcludePatterns;
 
       // Find all relevant files
-      const files = await this.findFiles(options.projectPath, includePatterns, excludePatterns);
+      const workspaceFiles = await this.findFiles(options.projectPath, includePatterns, excludePatterns);
+
+      // Angular CLI / Nx workspaces: files belong to the application or library with the deepest root
+      const projects = await this.workspaceLoader.load(options.projectPath, logCollector);
+      const selectedProjects = this.selectProjects(projects, options.project);
+      const projectFiles = options.project
+        ? workspaceFiles.filter(file => this.workspaceLoader.projectOf(projects, path.relative(options.projectPath, file))?.name === options.project)
+        : workspaceFiles;
+
+      const cacheVersion = await AnalysisCache.version(this.ruleEngine.getRules(), config, options);
+      const cache = await AnalysisCache.load(options.projectPath, cacheVersion, options.noCache, logCollector);
+      const sourceFacts = await this.collectSourceFacts(workspaceFiles, options.projectPath, cache);
+
+      // Pull requests: only files changed since a git ref, with the components of changed templates and stylesheets
+      const changes = options.changedSince
+        ? await this.toProjectPaths(await this.gitChanges.changedFiles(options.projectPath, options.changedSince, logCollector), workspaceFiles)
+        : undefined;
+      const files = changes ? this.changedScope(projectFiles, changes, sourceFacts, options.projectPath) : projectFiles;
       logger.info(`Found ${files.length} files to analyze`);
-      if (logCollector) logCollector.push(`Found ${files.length} files to analyze`);
+      if (logCollector) logCollector.push(`Found ${files.length} files to analyze${options.project ? ` in project ${options.project}` : ''}`);
+
+      for (const filePath of workspaceFiles) {
+        if (!files.includes(filePath)) cache.retain(path.relative(options.projectPath, filePath));
+      }
+
+      // Route titles may come from a TitleStrategy anywhere in the workspace
+      const customTitleStrategy = [...sourceFacts.values()].some(facts => facts.titleStrategy);
+      cache.setCustomTitleStrategy(customTitleStrategy);
+
+      // Custom properties declared on :root/html/body apply to every stylesheet
+      this.globalCustomProperties = await this.collectGlobalCustomProperties(workspaceFiles, options.projectPath, cache);
+      cache.setGlobalCustomProperties(this.globalCustomProperties);
+
+      // Files whose content and dependencies are unchanged reuse their previous issues
+      const cached = new Map<string, CachedAnalysis>();
+      for (const filePath of files) {
+        const entry = await cache.lookup(path.relative(options.projectPath, filePath));
+        if (entry) cached.set(filePath, entry);
+      }
+
+      // Components first: the templates and stylesheets they own are analyzed with them
+      const context: FileAnalysisContext = {
+        projectPath: options.projectPath,
+        options,
+        config,
+        globalCustomProperties: this.globalCustomProperties,
+        documents: projects.length > 0
+          ? projects.flatMap(project => project.index ? [path.resolve(options.projectPath, project.index)] : [])
+          : workspaceFiles.filter(file => path.basename(file) === 'index.html'),
+        customTitleStrategy
+      };
+      const pending = files.filter(file => !cached.has(file));
+      const results = await this.analyzeInParallel(pending.filter(file => file.endsWith('.ts')), context, logCollector);
+
+      const ownedFiles = new Map<string, string>();
+      for (const [filePath, entry] of [...results, ...cached]) {
+        for (const ownedFile of entry.owned || []) {
+          ownedFiles.set(path.resolve(options.projectPath, ownedFile), path.relative(options.projectPath, filePath));
+        }
+      }
+
+      const standalone = pending.filter(file => !file.endsWith('.ts') && !ownedFiles.has(file));
+      for (const [filePath, analysis] of await this.analyzeInParallel(standalone, context, logCollector)) {
+        results.set(filePath, analysis);
+      }
 
-      // Analyze files
+      // Collect in file order so the output does not depend on scheduling
       const allIssues: AccessibilityIssue[] = [];
-      
+      const fileCounts = { analyzed: 0, cached: 0 };
+
       for (const filePath of files) {
-        if (logCollector) logCollector.push(`Analyzing file: ${filePath}`);
-        const fileIssues = await this.analyzeFile(filePath, options.projectPath, logCollector);
-        if (logCollector) logCollector.push(`Found ${fileIssues.length} issues in ${filePath}`);
-        allIssues.push(...fileIssues);
+        const owner = ownedFiles.get(filePath);
+        if (owner) {
+          if (logCollector) logCollector.push(`Skipping ${filePath}: analyzed with its component in ${owner}`);
+          continue;
+        }
+
+        const entry = cached.get(filePath);
+        if (entry) {
+          if (logCollector) logCollector.push(`Reusing ${entry.issues.length} cached issues for ${filePath}`);
+          allIssues.push(...entry.issues);
+          fileCounts.cached++;
+          continue;
+        }
+
+        const analysis = results.get(filePath)!;
+        if (logCollector) {
+          logCollector.push(`Analyzing file: ${filePath}`, ...(analysis.logs || []));
+          logCollector.push(`Found ${analysis.issues.length} issues in ${filePath}`);
+        }
+        allIssues.push(...analysis.issues);
+        fileCounts.analyzed++;
+
+        if (analysis.dependencies) {
+          await cache.store(path.relative(options.projectPath, filePath), {
+            dependencies: analysis.dependencies,
+            owned: analysis.owned || [],
+            usesGlobalStyles: !!analysis.usesGlobalStyles,
+            usesTitleStrategy: !!analysis.usesTitleStrategy,
+            issues: analysis.issues
+          });
+        }
       }
 
+      await cache.save(logCollector);
+      if (logCollector) logCollector.push(`Analyzed ${fileCounts.analyzed} files, reused ${fileCounts.cached} from cache`);
+
+      const reportedIssues = changes
+        ? this.filterToChanges(allIssues, changes, ownedFiles, options, logCollector)
+        : allIssues;
+
+      // Honor inline suppression comments; suppressed issues stay auditable in their own bucket
+      const { issues, suppressedIssues } = await this.applySuppressions(reportedIssues, options.projectPath, logCollector);
+      await this.autofixService.describeFixes(issues, options.projectPath, logCollector);
+
       // Calculate summary
-      const summary = this.calculateSummary(allIssues);
+      const summary = { ...this.calculateSummary(issues), suppressed: suppressedIssues.length };
+      const projectResults = this.groupByProject(selectedProjects, issues, suppressedIssues, projects);
 
       const result: AnalysisResult = {
-        issues: allIssues,
+        issues,
+        suppressedIssues,
         summary,
         analysisType: 'static',
         timestamp: new Date().toISOString(),
-        projectPath: options.projectPath
+        projectPath: options.projectPath,
+        ...(configPath ? { configPath } : {}),
+        files: fileCounts,
+        ...(options.changedSince ? { changedSince: options.changedSince } : {}),
+        ...(projectResults.length > 0 ? { projects: projectResults } : {})
       };
 
-      logger.info(`Static analysis completed. Found ${allIssues.length} issues.`);
-      if (logCollector) logCollector.push(`Static analysis completed. Found ${allIssues.length} issues.`);
+      logger.info(`Static analysis completed. Found ${issues.length} issues (${suppressedIssues.length} suppressed).`);
+      if (logCollector) logCollector.push(`Static analysis completed. Found ${issues.length} issues (${suppressedIssues.length} suppressed).`);
       return result;
 
     } catch (error) {
@@ -59,27 +234,392 @@ export class StaticAnalyzer {
     }
   }
 
+  /** Sets up rule engine and shared inputs for analyzeSingleFile (in this thread or a worker). */
+  configure(context: FileAnalysisContext): void {
+    this.projectPath = context.projectPath;
+    this.ruleEngine = RuleEngine.fromSelection(context.options, context.config);
+    this.globalCustomProperties = context.globalCustomProperties;
+    this.documents = new Set(context.documents);
+    this.customTitleStrategy = context.customTitleStrategy;
+  }
+
+  /** Analyzes one file on its own; a `.ts` file is analyzed together with its components. */
+  async analyzeSingleFile(filePath: string, logCollector?: string[]): Promise<FileAnalysis> {
+    const components = filePath.endsWith('.ts')
+      ? await this.resolveComponents([filePath], this.projectPath, logCollector)
+      : [];
+    return this.analyzeFile(filePath, this.projectPath, logCollector, components);
+  }
+
+  /**
+   * Analyzes files on `options.concurrency` worker threads (in this thread when it is 1,
+   * or when the workers fail to start). Each file's log lines are kept with its result; a
+   * failing file yields no issues.
+   */
+  private async analyzeInParallel(
+    files: string[],
+    context: FileAnalysisContext,
+    logCollector?: string[]
+  ): Promise<Map<string, FileAnalysis>> {
+    const results = new Map<string, FileAnalysis>();
+    // availableParallelism() only exists from Node 18.14
+    const cpus = os.availableParallelism?.() ?? os.cpus().length;
+    const concurrency = Math.min(context.options.concurrency ?? Math.max(1, cpus - 1), files.length);
+
+    let pool: WorkerPool<string, FileAnalysis> | undefined;
+    if (concurrency > 1) {
+      try {
+        pool = new WorkerPool(new URL('./static-analysis-worker.js', import.meta.url), concurrency, context);
+        if (logCollector) logCollector.push(`Analyzing ${files.length} files on ${concurrency} worker threads`);
+      } catch (error) {
+        logger.warn('Failed to start analysis workers, analyzing sequentially:', error);
+        if (logCollector) logCollector.push(`Failed to start analysis workers, analyzing sequentially: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (!pool) {
+      return this.analyzeSequentially(files, context, results, logCollector);
+    }
+
+    try {
+      await Promise.all(files.map(async filePath => {
+        try {
+          results.set(filePath, await pool!.run(filePath));
+        } catch (error) {
+          if (pool!.failure) return;
+          logger.warn(`Failed to analyze file ${filePath}:`, error);
+          results.set(filePath, { issues: [], logs: [`Failed to analyze file ${filePath}: ${error instanceof Error ? error.message : String(error)}`] });
+        }
+      }));
+    } finally {
+      await pool.close();
+    }
+
+    if (pool.failure) {
+      const remaining = files.filter(file => !results.has(file));
+      logger.warn(`${pool.failure.message}; analyzing ${remaining.length} files sequentially`);
+      if (logCollector) logCollector.push(`${pool.failure.message}; analyzing ${remaining.length} files sequentially`);
+      await this.analyzeSequentially(remaining, context, results, logCollector);
+    }
+    return results;
+  }
+
+  private async analyzeSequentially(
+    files: string[],
+    context: FileAnalysisContext,
+    results: Map<string, FileAnalysis>,
+    logCollector?: string[]
+  ): Promise<Map<string, FileAnalysis>> {
+    this.configure(context);
+    for (const filePath of files) {
+      const logs: string[] = [];
+      results.set(filePath, { ...await this.analyzeSingleFile(filePath, logCollector ? logs : undefined), logs });
+    }
+    return results;
+  }
+
+  /**
+   * `changes` with the paths of the globbed `files` they refer to: git reports real paths,
+   * while the project path may reach the repository through a symlink.
+   */
+  private async toProjectPaths(changes: ChangedFile[], files: string[]): Promise<ChangedFile[]> {
+    const byRealPath = new Map<string, string>();
+    for (const file of files) {
+      byRealPath.set(await fs.realpath(file), file);
+    }
+    return changes.map(change => ({ ...change, file: byRealPath.get(change.file) ?? change.file }));
+  }
+
+  /**
+   * Changed files among `files`, plus the component `.ts` files that reference a changed
+   * template or stylesheet so it is still analyzed together with its component.
+   */
+  private changedScope(
+    files: string[],
+    changes: ChangedFile[],
+    sourceFacts: Map<string, SourceFacts>,
+    projectPath: string
+  ): string[] {
+    const changed = new Set(changes.map(change => change.file));
+    const changedResources = new Set(files
+      .filter(file => changed.has(file) && !file.endsWith('.ts'))
+      .map(file => path.relative(projectPath, file)));
+
+    return files.filter(file => changed.has(file) ||
+      (sourceFacts.get(file)?.resources || []).some(resource => changedResources.has(resource)));
+  }
+
+  /**
+   * Issues in changed files (on changed lines with `changedLinesOnly`), by their location
+   * or their origin. Templates and stylesheets of a changed component count as changed
+   * as a whole.
+   */
+  private filterToChanges(
+    issues: AccessibilityIssue[],
+    changes: ChangedFile[],
+    ownedFiles: Map<string, string>,
+    options: StaticAnalysisOptions,
+    logCollector?: string[]
+  ): AccessibilityIssue[] {
+    // Project-relative file -> changed lines, or undefined for the whole file
+    const scope = new Map<string, LineRange[] | undefined>();
+    for (const change of changes) {
+      scope.set(path.relative(options.projectPath, change.file), options.changedLinesOnly ? change.lines : undefined);
+    }
+    for (const [ownedFile, owner] of ownedFiles) {
+      const relativePath = path.relative(options.projectPath, ownedFile);
+      if (scope.has(owner) && !scope.has(relativePath)) scope.set(relativePath, undefined);
+    }
+
+    const inScope = (file?: string, line?: number) => {
+      if (!file || !scope.has(file)) return false;
+      const lines = scope.get(file);
+      return !lines || !line || lines.some(range => line >= range.start && line <= range.end);
+    };
+    // Issues moved from a stylesheet onto template elements also count where they were found
+    const filtered = issues.filter(issue =>
+      inScope(issue.file, issue.line) || inScope(issue.origin?.file, issue.origin?.line));
+
+    if (logCollector) logCollector.push(`Reporting ${filtered.length} of ${issues.length} issues in code changed since ${options.changedSince}`);
+    return filtered;
+  }
+
+  /** The workspace projects to report on: all of them, or the one requested. */
+  private selectProjects(projects: WorkspaceProject[], name?: string): WorkspaceProject[] {
+    if (!name) return projects;
+
+    const project = projects.find(candidate => candidate.name === name);
+    if (!project) {
+      throw new Error(projects.length > 0
+        ? `Project "${name}" not found in workspace. Available projects: ${projects.map(candidate => candidate.name).join(', ')}`
+        : `Project "${name}" requested, but no angular.json, project.json or nx.json was found`);
+    }
+    return [project];
+  }
+
+  /** Tags issues with their project and summarizes each application and library on its own. */
+  private groupByProject(
+    selected: WorkspaceProject[],
+    issues: AccessibilityIssue[],
+    suppressedIssues: AccessibilityIssue[],
+    projects: WorkspaceProject[]
+  ): ProjectResult[] {
+    for (const issue of [...issues, ...suppressedIssues]) {
+      const project = issue.file ? this.workspaceLoader.projectOf(projects, issue.file) : undefined;
+      if (project) issue.project = project.name;
+    }
+
+    return selected.map(project => {
+      const projectIssues = issues.filter(issue => issue.project === project.name);
+      const suppressed = suppressedIssues.filter(issue => issue.project === project.name).length;
+      return { ...project, summary: { ...this.calculateSummary(projectIssues), suppressed } };
+    });
+  }
+
   private async findFiles(projectPath: string, includePatterns: string[], excludePatterns: string[]): Promise<string[]> {
     const allFiles: string[] = [];
 
+    // glob finds nothing below a symlinked cwd, so it runs in the real directory
+    const cwd = await fs.realpath(projectPath);
     for (const pattern of includePatterns) {
       const files = await glob(pattern, {
-        cwd: projectPath,
-        absolute: true,
+        cwd,
         ignore: excludePatterns
       });
-      allFiles.push(...files);
+      allFiles.push(...files.map(file => path.resolve(projectPath, file)));
     }
 
     // Remove duplicates
     return [...new Set(allFiles)];
   }
 
-  private async analyzeFile(
+  private async resolveComponents(
+    files: string[],
+    projectPath: string,
+    logCollector?: string[]
+  ): Promise<AngularComponent[]> {
+    const components: AngularComponent[] = [];
+
+    for (const filePath of files.filter(file => file.endsWith('.ts'))) {
+      try {
+        const content = await fs.readFile(filePath, 'utf8');
+        if (!this.isAngularComponent(content)) continue;
+
+        const relativePath = path.relative(projectPath, filePath);
+        for (const metadata of this.componentParser.parse(content, relativePath)) {
+          components.push(await this.buildComponent(metadata, content, filePath, projectPath, logCollector));
+        }
+      } catch (error) {
+        logger.warn(`Failed to resolve components in ${filePath}:`, error);
+        if (logCollector) logCollector.push(`Failed to resolve components in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (logCollector) logCollector.push(`Resolved ${components.length} Angular components`);
+    return components;
+  }
+
+  private async buildComponent(
+    metadata: ComponentMetadata,
+    content: string,
     filePath: string,
     projectPath: string,
     logCollector?: string[]
-  ): Promise<AccessibilityIssue[]> {
+  ): Promise<AngularComponent> {
+    const relativePath = path.relative(projectPath, filePath);
+    const component: AngularComponent = {
+      file: relativePath,
+      content,
+      className: metadata.className,
+      classEnd: metadata.classEnd,
+      ...(metadata.selector ? { selector: metadata.selector } : {}),
+      ...(metadata.host ? { host: metadata.host } : {}),
+      styles: metadata.inlineStyles.map(range => content.slice(range.start, range.end)),
+      styleUrls: [],
+      stylesheets: []
+    };
+
+    if (metadata.inlineTemplate) {
+      component.template = this.templateParser.parse(content, relativePath, metadata.inlineTemplate);
+    } else if (metadata.templateUrl) {
+      const templatePath = path.resolve(path.dirname(filePath), metadata.templateUrl);
+      if (await fs.pathExists(templatePath)) {
+        component.templateUrl = path.relative(projectPath, templatePath);
+        component.template = this.templateParser.parse(await fs.readFile(templatePath, 'utf8'), component.templateUrl);
+      } else if (logCollector) {
+        logCollector.push(`templateUrl of ${metadata.className} not found: ${metadata.templateUrl}`);
+      }
+    }
+
+    // Inline styles keep the .ts file's layout (everything else blanked) so positions stay valid
+    for (const range of metadata.inlineStyles) {
+      component.stylesheets!.push(await this.parseStylesheet(this.maskOutside(content, range), relativePath, projectPath));
+    }
+
+    for (const styleUrl of metadata.styleUrls) {
+      const stylePath = path.resolve(path.dirname(filePath), styleUrl);
+      if (await fs.pathExists(stylePath)) {
+        const relativeStylePath = path.relative(projectPath, stylePath);
+        component.styleUrls!.push(relativeStylePath);
+        component.stylesheets!.push(await this.parseStylesheet(await fs.readFile(stylePath, 'utf8'), relativeStylePath, projectPath));
+      } else if (logCollector) {
+        logCollector.push(`styleUrl of ${metadata.className} not found: ${styleUrl}`);
+      }
+    }
+
+    return component;
+  }
+
+  /**
+   * Parses a stylesheet and makes the variables and mixins of its `@use`/`@import`ed
+   * partials and the project's global custom properties visible to it (its own
+   * definitions win).
+   */
+  private async parseStylesheet(content: string, file: string, projectPath: string): Promise<AngularStylesheet> {
+    let stylesheet = this.stylesheetParser.parse(content, file);
+    const importedFiles = new Set<string>();
+    const imported = await this.loadStyleImports(stylesheet, path.resolve(projectPath, file), projectPath, importedFiles);
+
+    // Imported mixins have to be known while parsing to be expanded
+    if (Object.keys(imported.mixins).length > 0) {
+      stylesheet = this.stylesheetParser.parse(content, file, imported.mixins);
+    }
+
+    stylesheet.variables = { ...this.globalCustomProperties, ...imported.variables, ...stylesheet.variables };
+    stylesheet.importedFiles = [...importedFiles].map(importPath => path.relative(projectPath, importPath));
+    return stylesheet;
+  }
+
+  private async loadStyleImports(
+    stylesheet: AngularStylesheet,
+    filePath: string,
+    projectPath: string,
+    seen: Set<string>
+  ): Promise<{ variables: Record<string, string>; mixins: Record<string, string> }> {
+    let variables: Record<string, string> = {};
+    let mixins: Record<string, string> = {};
+
+    for (const request of stylesheet.imports || []) {
+      const importPath = await this.resolveStyleImport(request, path.dirname(filePath), projectPath);
+      if (!importPath || seen.has(importPath)) continue;
+      seen.add(importPath);
+
+      try {
+        const imported = this.stylesheetParser.parse(await fs.readFile(importPath, 'utf8'), importPath);
+        const nested = await this.loadStyleImports(imported, importPath, projectPath, seen);
+        variables = { ...variables, ...nested.variables, ...imported.variables };
+        mixins = { ...mixins, ...nested.mixins, ...imported.mixins };
+      } catch (error) {
+        logger.debug(`Failed to read stylesheet import ${importPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return { variables, mixins };
+  }
+
+  /** Resolves a Sass import like the compiler does: partials, extensions and index files. */
+  private async resolveStyleImport(request: string, fromDir: string, projectPath: string): Promise<string | undefined> {
+    const cleaned = request.replace(/^~/, '');
+
+    for (const baseDir of [fromDir, projectPath]) {
+      const base = path.resolve(baseDir, cleaned);
+      const candidates = [
+        base,
+        `${base}.scss`,
+        `${base}.css`,
+        path.join(path.dirname(base), `_${path.basename(base)}.scss`),
+        path.join(base, '_index.scss'),
+        path.join(base, 'index.scss')
+      ];
+
+      for (const candidate of candidates) {
+        if ((await fs.pathExists(candidate)) && (await fs.stat(candidate)).isFile()) return candidate;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async collectGlobalCustomProperties(
+    files: string[],
+    projectPath: string,
+    cache: AnalysisCache
+  ): Promise<Record<string, string>> {
+    const properties: Record<string, string> = {};
+
+    for (const filePath of files.filter(file => /\.(s?css)$/.test(file))) {
+      const own = await cache.customProperties(path.relative(projectPath, filePath), async () => {
+        const found: Record<string, string> = {};
+        try {
+          const stylesheet = this.stylesheetParser.parse(await fs.readFile(filePath, 'utf8'), filePath);
+          for (const rule of stylesheet.rules || []) {
+            if (![':root', 'html', 'body'].includes(rule.selector)) continue;
+            for (const declaration of rule.declarations) {
+              if (declaration.property.startsWith('--')) found[declaration.property] = declaration.value.trim();
+            }
+          }
+        } catch (error) {
+          logger.debug(`Failed to collect custom properties from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return found;
+      });
+      Object.assign(properties, own);
+    }
+
+    return properties;
+  }
+
+  private maskOutside(content: string, range: TemplateRange): string {
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+    return blank(content.slice(0, range.start)) + content.slice(range.start, range.end) + blank(content.slice(range.end));
+  }
+
+  private async analyzeFile(
+    filePath: string,
+    projectPath: string,
+    logCollector?: string[],
+    components: AngularComponent[] = []
+  ): Promise<FileAnalysis> {
     try {
       const relativePath = path.relative(projectPath, filePath);
       const extension = path.extname(filePath).toLowerCase();
@@ -88,20 +628,39 @@ export class StaticAnalyzer {
 
       switch (extension) {
         case '.html':
-          return this.analyzeHtmlTemplate(content, relativePath, logCollector);
-        case '.ts':
-          return this.analyzeTypeScriptFile(content, relativePath, logCollector);
+          if (this.documents.has(filePath)) {
+            return this.analyzeDocument(content, filePath, projectPath, logCollector);
+          }
+          return { issues: this.analyzeHtmlTemplate(content, relativePath, logCollector), dependencies: [] };
+        case '.ts': {
+          const owned = components.flatMap(component => [
+            ...(component.templateUrl ? [component.templateUrl] : []),
+            ...(component.styleUrls || [])
+          ]);
+          const stylesheets = components.flatMap(component => component.stylesheets || []);
+          const routes = this.routeParser.parse(content, relativePath);
+          return {
+            issues: [
+              ...this.analyzeTypeScriptFile(relativePath, components, logCollector),
+              ...this.analyzeRoutes(routes, relativePath, logCollector)
+            ],
+            dependencies: [...owned, ...stylesheets.flatMap(stylesheet => stylesheet.importedFiles || [])],
+            owned,
+            usesGlobalStyles: stylesheets.length > 0,
+            usesTitleStrategy: routes.length > 0
+          };
+        }
         case '.scss':
         case '.css':
-          return this.analyzeCssFile(content, relativePath, logCollector);
+          return this.analyzeCssFile(content, relativePath, projectPath, logCollector);
         default:
           if (logCollector) logCollector.push(`Skipped unsupported file type: ${relativePath}`);
-          return [];
+          return { issues: [], dependencies: [] };
       }
     } catch (error) {
       logger.warn(`Failed to analyze file ${filePath}:`, error);
       if (logCollector) logCollector.push(`Failed to analyze file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
-      return [];
+      return { issues: [] };
     }
   }
 
@@ -110,183 +669,317 @@ export class StaticAnalyzer {
     filePath: string,
     logCollector?: string[]
   ): AccessibilityIssue[] {
-    const issues: AccessibilityIssue[] = [];
-    const $ = cheerio.load(content);
-
-    if (logCollector) logCollector.push(`Analyzing HTML template: ${filePath}`);
-
-    // Check for images without alt attributes
-    $('img').each((index, element) => {
-      const $img = $(element);
-      const alt = $img.attr('alt');
-      const src = $img.attr('src');
+    const template = this.templateParser.parse(content, filePath);
+    return this.analyzeTemplate(template, logCollector);
+  }
 
-      if (alt === undefined) {
-        if (logCollector) logCollector.push(`Image without alt attribute found in ${filePath} (src: ${src || 'N/A'})`);
-        issues.push({
-          id: `img-alt-${index}`,
-          rule: 'Images must have alt attributes',
-          severity: 'serious',
-          wcagLevel: 'A',
-          wcagCriterion: '1.1.1',
-          description: 'Image elements must have an alt attribute to provide alternative text for screen readers.',
-          helpText: 'Add an alt attribute that describes the image content or use alt="" for decorative images.',
-          wcagUrl: 'https://www.w3.org/TR/WCAG20/#text-equiv-all',
-          element: src ? `<img src="${src}">` : '<img>',
-          selector: 'img',
-          file: filePath,
-          source: 'static'
-        });
-      }
-    });
+  /** An application's index.html: its template checks plus the document rules, which also see the app shell. */
+  private async analyzeDocument(
+    content: string,
+    filePath: string,
+    projectPath: string,
+    logCollector?: string[]
+  ): Promise<FileAnalysis> {
+    const relativePath = path.relative(projectPath, filePath);
+    const index = this.templateParser.parse(content, relativePath);
+    const issues = this.analyzeTemplate(index, logCollector);
+
+    const shell = await this.findShell(index, filePath, projectPath, logCollector);
+    const document: AppDocument = { index, ...(shell?.template ? { shell: shell.template } : {}) };
+    issues.push(...this.ruleEngine.run({ file: relativePath, document }, logCollector));
+
+    return {
+      issues,
+      dependencies: shell ? [shell.file, ...(shell.templateUrl ? [shell.templateUrl] : [])] : []
+    };
+  }
 
-    // Check for form inputs without labels
-    $('input[type="text"], input[type="email"], input[type="password"], input[type="number"], input[type="tel"], input[type="url"], textarea, select').each((index, element) => {
-      const $input = $(element);
-      const id = $input.attr('id');
-      const ariaLabel = $input.attr('aria-label');
-      const ariaLabelledby = $input.attr('aria-labelledby');
-      const type = $input.attr('type') || $input.prop('tagName')?.toLowerCase() || 'input';
-
-      // Check if input has a label
-      let hasLabel = false;
-      if (id) {
-        hasLabel = $(`label[for="${id}"]`).length > 0;
+  /** The root component bootstrapped by index.html, found by selector below the index's directory. */
+  private async findShell(
+    index: AngularTemplate,
+    filePath: string,
+    projectPath: string,
+    logCollector?: string[]
+  ): Promise<AngularComponent | undefined> {
+    const selectors = (index.elements || []).map(element => element.tagName).filter(tag => tag.includes('-'));
+    if (selectors.length === 0) return undefined;
+
+    const candidates = (await glob('**/*.ts', {
+      cwd: await fs.realpath(path.dirname(filePath)),
+      ignore: ['node_modules/**', '**/*.spec.ts', '**/*.test.ts']
+    })).map(candidate => path.resolve(path.dirname(filePath), candidate));
+    const declaresSelector = new RegExp(`selector\\s*:\\s*['"\`](${selectors.join('|')})['"\`]`);
+
+    for (const candidate of candidates.sort()) {
+      if (!declaresSelector.test(await fs.readFile(candidate, 'utf8'))) continue;
+      const shell = (await this.resolveComponents([candidate], projectPath, logCollector))
+        .find(component => component.selector && selectors.includes(component.selector));
+      if (shell) {
+        if (logCollector) logCollector.push(`App shell of ${path.relative(projectPath, filePath)}: ${shell.className} in ${shell.file}`);
+        return shell;
       }
+    }
+    return undefined;
+  }
 
-      if (!hasLabel && !ariaLabel && !ariaLabelledby) {
-        if (logCollector) logCollector.push(`Form input without label found in ${filePath} (<${type}>)`);
-        issues.push({
-          id: `input-label-${index}`,
-          rule: 'Form inputs must have labels',
-          severity: 'serious',
-          wcagLevel: 'A',
-          wcagCriterion: '1.3.1',
-          description: 'Form input elements must have associated labels to be accessible to screen readers.',
-          helpText: 'Add a <label> element with a "for" attribute matching the input\'s id, or use aria-label or aria-labelledby.',
-          wcagUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic',
-          element: `<${type}>`,
-          selector: type,
-          file: filePath,
-          source: 'static'
-        });
-      }
-    });
+  private analyzeTemplate(
+    template: AngularTemplate,
+    logCollector?: string[],
+    component?: AngularComponent
+  ): AccessibilityIssue[] {
+    const filePath = template.file;
 
-    // Check for proper heading hierarchy
-    const headings = $('h1, h2, h3, h4, h5, h6').toArray();
-    let previousLevel = 0;
-    
-    headings.forEach((element, index) => {
-      const tagName = element.tagName.toLowerCase();
-      const currentLevel = parseInt(tagName.charAt(1));
-      
-      if (currentLevel > previousLevel + 1) {
-        if (logCollector) logCollector.push(`Heading hierarchy issue in ${filePath}: <${tagName}> skips from h${previousLevel} to h${currentLevel}`);
-        issues.push({
-          id: `heading-hierarchy-${index}`,
-          rule: 'Heading levels should not be skipped',
-          severity: 'moderate',
-          wcagLevel: 'AA',
-          wcagCriterion: '1.3.1',
-          description: 'Heading levels should be used in sequential order without skipping levels.',
-          helpText: `Use h${previousLevel + 1} instead of h${currentLevel} to maintain proper heading hierarchy.`,
-          wcagUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic',
-          element: `<${tagName}>`,
-          selector: tagName,
-          file: filePath,
-          source: 'static'
-        });
-      }
-      
-      previousLevel = currentLevel;
-    });
+    if (logCollector) logCollector.push(`Analyzing HTML template: ${filePath}`);
+    for (const error of template.errors || []) {
+      logger.warn(`Template parse error in ${filePath}: ${error}`);
+      if (logCollector) logCollector.push(`Template parse error in ${filePath}: ${error}`);
+    }
 
-    return issues;
+    return this.ruleEngine.run({ file: filePath, template, ...(component ? { component } : {}) }, logCollector);
   }
 
   private analyzeTypeScriptFile(
-    content: string,
     filePath: string,
+    components: AngularComponent[],
     logCollector?: string[]
   ): AccessibilityIssue[] {
     const issues: AccessibilityIssue[] = [];
 
     if (logCollector) logCollector.push(`Analyzing TypeScript file: ${filePath}`);
 
-    // Check for Angular component template accessibility
-    if (this.isAngularComponent(content)) {
-      if (logCollector) logCollector.push(`Detected Angular component in ${filePath}`);
-      // Look for inline templates
-      const templateMatch = content.match(/template\s*:\s*`([^`]*)`/s);
-      if (templateMatch) {
-        if (logCollector) logCollector.push(`Found inline template in ${filePath}`);
-        const templateContent = templateMatch[1];
-        const templateIssues = this.analyzeHtmlTemplate(templateContent, filePath, logCollector);
-        issues.push(...templateIssues);
+    for (const component of components) {
+      if (logCollector) logCollector.push(`Detected Angular component ${component.className} in ${filePath}`);
+      issues.push(...this.analyzeComponent(component, logCollector));
+    }
+
+    return issues;
+  }
+
+  /** Route definitions of a TypeScript file, checked with the project's TitleStrategy in mind. */
+  private analyzeRoutes(routes: AngularRoute[], filePath: string, logCollector?: string[]): AccessibilityIssue[] {
+    if (routes.length === 0) return [];
+
+    if (logCollector) logCollector.push(`Analyzing ${routes.length} routes in ${filePath}`);
+    return this.ruleEngine.run({ file: filePath, routing: { routes, customTitleStrategy: this.customTitleStrategy } }, logCollector);
+  }
+
+  /**
+   * Facts about every TypeScript file of the workspace, by absolute path: whether it
+   * replaces the TitleStrategy and which templates and stylesheets its components use.
+   */
+  private async collectSourceFacts(
+    files: string[],
+    projectPath: string,
+    cache: AnalysisCache
+  ): Promise<Map<string, SourceFacts>> {
+    const facts = new Map<string, SourceFacts>();
+
+    for (const filePath of files.filter(file => file.endsWith('.ts'))) {
+      const relativePath = path.relative(projectPath, filePath);
+      facts.set(filePath, await cache.sourceFacts(relativePath, async () => {
+        try {
+          const content = await fs.readFile(filePath, 'utf8');
+          const resources = this.isAngularComponent(content)
+            ? this.componentParser.parse(content, relativePath).flatMap(metadata =>
+                [...(metadata.templateUrl ? [metadata.templateUrl] : []), ...metadata.styleUrls]
+                  .map(url => path.relative(projectPath, path.resolve(path.dirname(filePath), url))))
+            : [];
+          return { titleStrategy: /extends\s+\w*TitleStrategy\b|provide\s*:\s*TitleStrategy\b/.test(content), resources };
+        } catch (error) {
+          logger.debug(`Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+          return { titleStrategy: false, resources: [] };
+        }
+      }));
+    }
+
+    return facts;
+  }
+
+  private analyzeComponent(
+    component: AngularComponent,
+    logCollector?: string[]
+  ): AccessibilityIssue[] {
+    const issues: AccessibilityIssue[] = [];
+
+    if (component.template) {
+      issues.push(...this.analyzeTemplate(component.template, logCollector, component));
+    }
+
+    if (component.host) {
+      if (logCollector) logCollector.push(`Analyzing host bindings of ${component.className}`);
+      issues.push(...this.ruleEngine.run({ file: component.file, host: component.host, component }, logCollector));
+    }
+
+    for (const stylesheet of component.stylesheets || []) {
+      issues.push(...this.analyzeComponentStylesheet(stylesheet, component, logCollector));
+    }
+
+    // Attribute every finding to the owning component
+    for (const issue of issues) {
+      issue.component = component.className;
+      if (component.selector) issue.componentSelector = component.selector;
+    }
+
+    return issues;
+  }
+
+  /**
+   * Checks a component's own stylesheet against its template: an outline removed for a
+   * selector without a :focus/:focus-visible replacement is reported on every interactive
+   * template element that selector matches, falling back to the stylesheet location.
+   */
+  private analyzeComponentStylesheet(
+    stylesheet: AngularStylesheet,
+    component: AngularComponent,
+    logCollector?: string[]
+  ): AccessibilityIssue[] {
+    const template = component.template;
+    const issues: AccessibilityIssue[] = [];
+
+    if (logCollector) logCollector.push(`Analyzing component stylesheet: ${stylesheet.file}`);
+    this.logStylesheetErrors(stylesheet, logCollector);
+    const stylesheetIssues = this.ruleEngine.run({ file: stylesheet.file, stylesheet, component }, logCollector);
+
+    for (const issue of stylesheetIssues) {
+      const matches = issue.rule === 'outline-none-focus' && template
+        ? (template.elements || []).filter(element =>
+            this.isInteractiveElement(element) && this.matchesSelector(element, issue.selector || ''))
+        : [];
+
+      if (matches.length === 0) {
+        issues.push(issue);
+        continue;
       }
 
-      // Check for missing trackBy in *ngFor
-      const ngForMatches = content.match(/\*ngFor="[^"]*"/g);
-      if (ngForMatches) {
-        ngForMatches.forEach((match, index) => {
-          if (!match.includes('trackBy')) {
-            if (logCollector) logCollector.push(`*ngFor without trackBy found in ${filePath}: ${match}`);
-            issues.push({
-              id: `ngfor-trackby-${index}`,
-              rule: '*ngFor should use trackBy for performance and accessibility',
-              severity: 'minor',
-              wcagLevel: 'AA',
-              wcagCriterion: '2.4.3',
-              description: 'Using trackBy in *ngFor helps screen readers maintain context when list items change.',
-              helpText: 'Add trackBy function to *ngFor directive to improve performance and accessibility.',
-              wcagUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-focus-order',
-              element: match,
-              file: filePath,
-              source: 'static'
-            });
-          }
+      matches.forEach((element, matchIndex) => {
+        if (logCollector) logCollector.push(`Interactive element in ${template!.file}:${element.line} loses its focus outline via ${stylesheet.file}:${issue.line}`);
+        issues.push({
+          ...issue,
+          id: `${issue.id}-${matchIndex}`,
+          helpText: `${stylesheet.file}:${issue.line}: ${issue.helpText}`,
+          element: element.source,
+          file: template!.file,
+          line: element.line,
+          column: element.column,
+          origin: { file: stylesheet.file, ...(issue.line ? { line: issue.line } : {}) }
         });
-      }
+      });
     }
 
     return issues;
   }
 
-  private analyzeCssFile(
+  private isInteractiveElement(element: TemplateElement): boolean {
+    return ['a', 'button', 'input', 'select', 'textarea', 'summary'].includes(element.tagName) ||
+      element.hasAttribute('tabindex') ||
+      element.hasAttribute('routerLink') ||
+      element.events.some(event => event.name === 'click');
+  }
+
+  /** Matches the last compound of a simple selector (tag, #id, .class) against a template element. */
+  private matchesSelector(element: TemplateElement, selector: string): boolean {
+    const compound = selector.split(/[\s>+~]+/).pop()!.replace(/::?[\w-]+(\([^)]*\))?/g, '');
+    const tag = compound.match(/^[a-zA-Z][\w-]*/)?.[0];
+    const id = compound.match(/#([\w-]+)/)?.[1];
+    const classes = [...compound.matchAll(/\.([\w-]+)/g)].map(match => match[1]);
+    if (!tag && !id && classes.length === 0) return false;
+
+    const elementClasses = new Set([
+      ...(element.getAttribute('class') || '').split(/\s+/).filter(Boolean),
+      ...element.attributes.filter(attr => attr.name.startsWith('class.')).map(attr => attr.name.slice(6))
+    ]);
+
+    return (!tag || tag.toLowerCase() === element.tagName) &&
+      (!id || element.getAttribute('id') === id) &&
+      classes.every(className => elementClasses.has(className));
+  }
+
+  private async analyzeCssFile(
     content: string,
     filePath: string,
+    projectPath: string,
     logCollector?: string[]
-  ): AccessibilityIssue[] {
+  ): Promise<FileAnalysis> {
+    if (logCollector) logCollector.push(`Analyzing CSS/SCSS file: ${filePath}`);
+
+    const stylesheet = await this.parseStylesheet(content, filePath, projectPath);
+    this.logStylesheetErrors(stylesheet, logCollector);
+    return {
+      issues: this.ruleEngine.run({ file: filePath, stylesheet }, logCollector),
+      dependencies: stylesheet.importedFiles || [],
+      usesGlobalStyles: true
+    };
+  }
+
+  private logStylesheetErrors(stylesheet: AngularStylesheet, logCollector?: string[]): void {
+    for (const error of stylesheet.errors || []) {
+      logger.warn(`Stylesheet parse error in ${stylesheet.file}: ${error}`);
+      if (logCollector) logCollector.push(`Stylesheet parse error in ${stylesheet.file}: ${error}`);
+    }
+  }
+
+  /**
+   * Splits off issues covered by a suppression comment where they are reported or, for
+   * issues moved onto template elements, in the stylesheet they come from.
+   */
+  private async applySuppressions(
+    allIssues: AccessibilityIssue[],
+    projectPath: string,
+    logCollector?: string[]
+  ): Promise<{ issues: AccessibilityIssue[]; suppressedIssues: AccessibilityIssue[] }> {
     const issues: AccessibilityIssue[] = [];
+    const suppressedIssues: AccessibilityIssue[] = [];
+    const rangesByFile = new Map<string, SuppressionRange[]>();
 
-    if (logCollector) logCollector.push(`Analyzing CSS/SCSS file: ${filePath}`);
+    const findSuppression = async (rule: string, file?: string, line?: number) => {
+      if (!file || !line) return undefined;
 
-    // Check for focus indicators
-    const focusSelectors = [':focus', ':focus-visible', ':focus-within'];
-    const hasFocusStyles = focusSelectors.some(selector => content.includes(selector));
+      let ranges = rangesByFile.get(file);
+      if (!ranges) {
+        ranges = await this.loadSuppressions(file, projectPath, logCollector);
+        rangesByFile.set(file, ranges);
+      }
 
-    if (!hasFocusStyles && content.includes('outline')) {
-      const outlineNoneMatches = content.match(/outline\s*:\s*none/g);
-      if (outlineNoneMatches) {
-        if (logCollector) logCollector.push(`Found outline: none without alternative focus style in ${filePath}`);
-        issues.push({
-          id: 'outline-none-focus',
-          rule: 'Do not remove focus indicators without replacement',
-          severity: 'serious',
-          wcagLevel: 'AA',
-          wcagCriterion: '2.4.7',
-          description: 'Removing focus indicators without providing alternative focus styles makes it difficult for keyboard users to navigate.',
-          helpText: 'If you remove the default outline, provide alternative focus styles using :focus or :focus-visible.',
-          wcagUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-focus-visible',
-          element: 'outline: none',
-          file: filePath,
-          source: 'static'
+      const range = ranges.find(candidate =>
+        line >= candidate.fromLine && line <= candidate.toLine &&
+        (candidate.rules.length === 0 || candidate.rules.includes(rule))
+      );
+      return range ? { range, file, line } : undefined;
+    };
+
+    for (const issue of allIssues) {
+      const suppression = await findSuppression(issue.rule, issue.file, issue.line) ??
+        await findSuppression(issue.rule, issue.origin?.file, issue.origin?.line);
+
+      if (suppression) {
+        const { range, file, line } = suppression;
+        if (logCollector) logCollector.push(`Suppressed ${issue.rule} in ${file}:${line}: ${range.justification}`);
+        suppressedIssues.push({
+          ...issue,
+          suppression: { justification: range.justification!, file, line: range.line }
         });
+      } else {
+        issues.push(issue);
       }
     }
 
-    return issues;
+    return { issues, suppressedIssues };
+  }
+
+  /** Suppression ranges of a file; directives without a justification are ignored. */
+  private async loadSuppressions(file: string, projectPath: string, logCollector?: string[]): Promise<SuppressionRange[]> {
+    try {
+      const content = await fs.readFile(path.resolve(projectPath, file), 'utf8');
+      return this.suppressionParser.parse(content).filter(range => {
+        if (range.justification) return true;
+        logger.warn(`Ignoring a11y-robot suppression without justification in ${file}:${range.line}`);
+        if (logCollector) logCollector.push(`Ignoring a11y-robot suppression without justification in ${file}:${range.line} (add "-- <reason>")`);
+        return false;
+      });
+    } catch (error) {
+      if (logCollector) logCollector.push(`Failed to read suppressions from ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
   }
 
   private isAngularComponent(content: string): boolean {
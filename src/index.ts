@@ -11,6 +11,59 @@ import {
 import { A11yRobotServer } from './server/a11y-robot-server.js';
 import { logger } from './utils/logger.js';
 
+// Shared by the dynamic and user-flow analysis tools
+const authSchema = {
+  type: 'object',
+  description: 'Sign in before analyzing; values may reference environment variables as ${env:NAME} (optional)',
+  properties: {
+    storageState: {
+      type: 'string',
+      description: 'Playwright storage state file, relative to projectPath',
+    },
+    headers: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: 'Headers sent with every request to the site, e.g. { "Authorization": "Bearer ${env:API_TOKEN}" }',
+    },
+    cookies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          value: { type: 'string' },
+          domain: { type: 'string' },
+          path: { type: 'string' },
+        },
+        required: ['name', 'value'],
+      },
+      description: 'Cookies to set; without domain they apply to the site',
+    },
+    login: {
+      type: 'object',
+      description: 'Login run once before the analysis',
+      properties: {
+        url: { type: 'string', description: 'Login page, absolute or relative to url' },
+        steps: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: ['fill', 'click', 'press', 'waitForSelector', 'waitForUrl'] },
+              selector: { type: 'string' },
+              value: { type: 'string' },
+              key: { type: 'string' },
+              url: { type: 'string' },
+            },
+            required: ['action'],
+          },
+        },
+      },
+      required: ['url', 'steps'],
+    },
+  },
+};
+
 async function main() {
   try {
     const server = new Server(
@@ -49,6 +102,44 @@ async function main() {
                   description: 'File patterns to exclude (optional)',
                   default: ['node_modules/**', 'dist/**', '**/*.spec.ts'],
                 },
+                ruleCategories: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: ['html', 'document', 'angular', 'material', 'aria', 'color', 'keyboard', 'semantic'],
+                  },
+                  description: 'Only run rules from these categories (optional, default: all)',
+                },
+                wcagLevel: {
+                  type: 'string',
+                  enum: ['A', 'AA', 'AAA'],
+                  description: 'Target conformance level; runs rules of this level and below (optional, default: all)',
+                },
+                configPath: {
+                  type: 'string',
+                  description: 'Path to an .a11yrobotrc.json or a11y-robot.config.ts file; overrides discovery from projectPath (optional)',
+                },
+                project: {
+                  type: 'string',
+                  description: 'Name of an application or library in angular.json / project.json to analyze on its own (optional, default: whole workspace)',
+                },
+                changedSince: {
+                  type: 'string',
+                  description: 'Git ref (commit, branch or tag); analyze only files changed since it, including uncommitted changes (optional)',
+                },
+                changedLinesOnly: {
+                  type: 'boolean',
+                  description: 'With changedSince, report only issues on added or modified lines (optional, default: false)',
+                },
+                noCache: {
+                  type: 'boolean',
+                  description: 'Analyze every file again instead of reusing cached results for unchanged files (optional, default: false)',
+                },
+                concurrency: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Number of worker threads analyzing files in parallel; 1 analyzes sequentially (optional, default: CPU count - 1)',
+                },
               },
               required: ['projectPath'],
             },
@@ -78,10 +169,105 @@ async function main() {
                   description: 'Timeout in milliseconds (optional)',
                   default: 30000,
                 },
+                projectPath: {
+                  type: 'string',
+                  description: 'Project directory used to discover the a11y-robot configuration file (optional)',
+                },
+                configPath: {
+                  type: 'string',
+                  description: 'Path to an .a11yrobotrc.json or a11y-robot.config.ts file; overrides discovery (optional)',
+                },
+                crawl: {
+                  type: 'boolean',
+                  description: 'Also analyze the same-origin pages linked from url and pages, honoring robots.txt (optional)',
+                  default: false,
+                },
+                maxPages: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Crawl: maximum number of pages to analyze (optional)',
+                  default: 20,
+                },
+                maxDepth: {
+                  type: 'integer',
+                  minimum: 0,
+                  description: 'Crawl: maximum number of links to follow from the start pages (optional)',
+                  default: 3,
+                },
+                includeUrls: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Crawl: globs for URL paths to follow, e.g. "/products/**" (optional)',
+                },
+                excludeUrls: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Crawl: globs for URL paths never to follow, e.g. "/logout" (optional)',
+                },
+                auth: authSchema,
+                keyboard: {
+                  type: 'boolean',
+                  description: 'Also tab through each page to record the focus order and find keyboard traps, hidden focus, missing focus indicators and unreachable controls (optional)',
+                  default: false,
+                },
+                maxTabStops: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Keyboard audit: maximum number of Tab presses per page (optional)',
+                  default: 100,
+                },
               },
               required: ['url'],
             },
           },
+          {
+            name: 'analyze_user_flow',
+            description: 'Run scripted user flows (goto, click, fill, press, hover, waitFor) in a browser and audit the UI states they reach with axe-core',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                scenarioPath: {
+                  type: 'string',
+                  description: 'JSON or YAML file with a scenario, a list of scenarios or { scenarios: [...] }, relative to projectPath',
+                },
+                scenarios: {
+                  type: 'array',
+                  description: 'Scenarios given inline instead of scenarioPath',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      url: { type: 'string', description: 'Page opened before the first step' },
+                      steps: {
+                        type: 'array',
+                        description: 'Steps such as { "click": "#menu" } or { "action": "fill", "selector": "#email", "value": "a@b.c" }; { "audit": true } runs axe on the current state',
+                        items: { type: 'object' },
+                      },
+                    },
+                    required: ['name', 'steps'],
+                  },
+                },
+                url: {
+                  type: 'string',
+                  description: 'Base URL that relative scenario URLs resolve against (optional)',
+                },
+                timeout: {
+                  type: 'number',
+                  description: 'Timeout per step in milliseconds (optional)',
+                  default: 30000,
+                },
+                projectPath: {
+                  type: 'string',
+                  description: 'Project directory for the scenario file and configuration discovery (optional)',
+                },
+                configPath: {
+                  type: 'string',
+                  description: 'Path to an .a11yrobotrc.json or a11y-robot.config.ts file; overrides discovery (optional)',
+                },
+                auth: authSchema,
+              },
+            },
+          },
           {
             name: 'generate_accessibility_report',
             description: 'Generate HTML report from accessibility analysis results',
@@ -106,6 +292,34 @@ async function main() {
               required: ['outputPath'],
             },
           },
+          {
+            name: 'fix_accessibility_issues',
+            description: 'Produce unified diffs for mechanically fixable static accessibility issues, or apply them in place',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                result: {
+                  type: 'object',
+                  description: 'Static AnalysisResult to fix (optional, defaults to the most recent static analysis)',
+                },
+                projectPath: {
+                  type: 'string',
+                  description: 'Project the result\'s file paths are relative to (optional, defaults to the result\'s projectPath)',
+                },
+                rules: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only fix issues of these rule ids (optional)',
+                },
+                apply: {
+                  type: 'boolean',
+                  description: 'Write the fixes to disk instead of only returning the diffs (optional)',
+                  default: false,
+                },
+              },
+              required: [],
+            },
+          },
           {
             name: 'get_wcag_guidelines',
             description: 'Fetch and parse WCAG 2.0 guidelines for reference',
@@ -141,9 +355,15 @@ async function main() {
           case 'analyze_dynamic_accessibility':
             return await a11yRobot.analyzeDynamicAccessibility(args as any);
 
+          case 'analyze_user_flow':
+            return await a11yRobot.analyzeUserFlow(args as any);
+
           case 'generate_accessibility_report':
             return await a11yRobot.generateAccessibilityReport(args as any);
 
+          case 'fix_accessibility_issues':
+            return await a11yRobot.fixAccessibilityIssues(args as any);
+
           case 'get_wcag_guidelines':
             return await a11yRobot.getWcagGuidelines(args as any);
 
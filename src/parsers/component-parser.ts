@@ -0,0 +1,208 @@
+import ts from 'typescript';
+import type { TemplateAttribute, TemplateElement, TemplateEvent } from '../types/index.js';
+import { ParsedTemplateElement, propertyToAttribute, type TemplateRange } from './template-parser.js';
+
+export interface ComponentMetadata {
+  className: string;
+  classEnd: number;
+  selector?: string;
+  inlineTemplate?: TemplateRange;
+  templateUrl?: string;
+  styleUrls: string[];
+  inlineStyles: TemplateRange[];
+  host?: TemplateElement;
+}
+
+interface HostBindings {
+  attributes: TemplateAttribute[];
+  events: TemplateEvent[];
+}
+
+/**
+ * Extracts `@Component` metadata from a TypeScript source file using the
+ * TypeScript compiler API, so multi-line and quoted metadata is handled correctly.
+ */
+export class ComponentParser {
+  parse(content: string, file: string): ComponentMetadata[] {
+    const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const components: ComponentMetadata[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isClassDeclaration(node) && node.name) {
+        const decorator = this.findComponentDecorator(node);
+        if (decorator) {
+          components.push(this.readMetadata(node, decorator, sourceFile));
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return components;
+  }
+
+  private findComponentDecorator(node: ts.ClassDeclaration): ts.Decorator | undefined {
+    return ts.getDecorators(node)?.find(decorator =>
+      ts.isCallExpression(decorator.expression) &&
+      ts.isIdentifier(decorator.expression.expression) &&
+      decorator.expression.expression.text === 'Component'
+    );
+  }
+
+  private readMetadata(node: ts.ClassDeclaration, decorator: ts.Decorator, sourceFile: ts.SourceFile): ComponentMetadata {
+    const metadata: ComponentMetadata = {
+      className: node.name!.text,
+      classEnd: node.getEnd() - 1,
+      styleUrls: [],
+      inlineStyles: []
+    };
+
+    const host: HostBindings = { attributes: [], events: [] };
+    this.readHostMembers(node, sourceFile, host);
+
+    const call = decorator.expression as ts.CallExpression;
+    const argument = call.arguments[0];
+    if (!argument || !ts.isObjectLiteralExpression(argument)) {
+      return this.withHost(metadata, node, sourceFile, host);
+    }
+
+    for (const property of argument.properties) {
+      if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name)) continue;
+      const value = property.initializer;
+
+      switch (property.name.text) {
+        case 'selector':
+          if (ts.isStringLiteralLike(value)) metadata.selector = value.text;
+          break;
+        case 'template':
+          if (ts.isStringLiteralLike(value)) {
+            metadata.inlineTemplate = this.contentRange(value, sourceFile);
+          }
+          break;
+        case 'templateUrl':
+          if (ts.isStringLiteralLike(value)) metadata.templateUrl = value.text;
+          break;
+        case 'styleUrl':
+          if (ts.isStringLiteralLike(value)) metadata.styleUrls.push(value.text);
+          break;
+        case 'styleUrls':
+          metadata.styleUrls.push(...this.readStrings(value).map(literal => literal.text));
+          break;
+        case 'styles':
+          metadata.inlineStyles.push(...this.readStrings(value).map(literal => this.contentRange(literal, sourceFile)));
+          break;
+        case 'host':
+          if (ts.isObjectLiteralExpression(value)) this.readHostMetadata(value, sourceFile, host);
+          break;
+      }
+    }
+
+    return this.withHost(metadata, node, sourceFile, host);
+  }
+
+  /** `host: { 'role': 'button', '[attr.tabindex]': '0', '(click)': 'toggle()' }` */
+  private readHostMetadata(host: ts.ObjectLiteralExpression, sourceFile: ts.SourceFile, bindings: HostBindings): void {
+    for (const property of host.properties) {
+      if (!ts.isPropertyAssignment(property)) continue;
+      const key = ts.isStringLiteralLike(property.name) || ts.isIdentifier(property.name) ? property.name.text : undefined;
+      if (!key) continue;
+
+      const value = ts.isStringLiteralLike(property.initializer) ? property.initializer.text : property.initializer.getText(sourceFile);
+      const position = this.position(property, sourceFile);
+      const event = key.match(/^\((.+)\)$/);
+      const binding = key.match(/^\[(.+)\]$/);
+
+      if (event) {
+        this.addHostEvent(bindings, event[1], value, position);
+      } else if (binding) {
+        this.addHostAttribute(bindings, binding[1], value, true, position);
+      } else {
+        this.addHostAttribute(bindings, key, value, false, position);
+      }
+    }
+  }
+
+  /** `@HostBinding('attr.role') role = 'button'` and `@HostListener('keydown.enter') onEnter() {}` */
+  private readHostMembers(node: ts.ClassDeclaration, sourceFile: ts.SourceFile, bindings: HostBindings): void {
+    for (const member of node.members) {
+      for (const decorator of (ts.canHaveDecorators(member) ? ts.getDecorators(member) : undefined) || []) {
+        if (!ts.isCallExpression(decorator.expression) || !ts.isIdentifier(decorator.expression.expression)) continue;
+        const kind = decorator.expression.expression.text;
+        const argument = decorator.expression.arguments[0];
+        const memberName = member.name && !ts.isComputedPropertyName(member.name) ? member.name.getText(sourceFile) : '';
+        const position = this.position(decorator, sourceFile);
+
+        if (kind === 'HostListener' && argument && ts.isStringLiteralLike(argument)) {
+          this.addHostEvent(bindings, argument.text, `${memberName}()`, position);
+        } else if (kind === 'HostBinding') {
+          const name = argument && ts.isStringLiteralLike(argument) ? argument.text : memberName;
+          const initializer = ts.isPropertyDeclaration(member) && member.initializer ? member.initializer.getText(sourceFile) : memberName;
+          this.addHostAttribute(bindings, name, initializer, true, position);
+        }
+      }
+    }
+  }
+
+  private addHostEvent(bindings: HostBindings, name: string, handler: string, position: { line: number; column: number }): void {
+    // document:/window:/body: listeners are not bound to the host element
+    if (name.includes(':')) return;
+    bindings.events.push({ name, handler, ...position });
+  }
+
+  private addHostAttribute(
+    bindings: HostBindings,
+    name: string,
+    value: string,
+    bound: boolean,
+    position: { line: number; column: number }
+  ): void {
+    // Named like template bindings: [attr.role] and [ariaLabel] become role and aria-label
+    const attribute = !bound ? name : name.startsWith('attr.') ? name.slice(5) : propertyToAttribute(name);
+    bindings.attributes.push({ name: attribute, value, bound, ...position });
+  }
+
+  /** Attaches the host bindings as an element named after the selector (e.g. `<app-card role="button">`). */
+  private withHost(metadata: ComponentMetadata, node: ts.ClassDeclaration, sourceFile: ts.SourceFile, bindings: HostBindings): ComponentMetadata {
+    if (bindings.attributes.length === 0 && bindings.events.length === 0) return metadata;
+
+    const tagName = metadata.selector?.split(',')[0].trim().match(/^[a-zA-Z][\w-]*/)?.[0].toLowerCase() ?? 'ng-component';
+    const parts = [
+      ...bindings.attributes.map(attr => attr.bound ? `[${attr.name}]="${attr.value}"` : `${attr.name}="${attr.value}"`),
+      ...bindings.events.map(event => `(${event.name})="${event.handler}"`)
+    ];
+    const name = node.name!;
+    const { line, column } = this.position(name, sourceFile);
+    const host = new ParsedTemplateElement(
+      tagName,
+      `<${[tagName, ...parts].join(' ')}>`,
+      line,
+      column,
+      name.getStart(sourceFile),
+      name.getEnd()
+    );
+    host.attributes.push(...bindings.attributes);
+    host.events.push(...bindings.events);
+
+    return { ...metadata, host };
+  }
+
+  private position(node: ts.Node, sourceFile: ts.SourceFile): { line: number; column: number } {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return { line: line + 1, column: character + 1 };
+  }
+
+  private readStrings(value: ts.Expression): ts.StringLiteralLike[] {
+    if (ts.isStringLiteralLike(value)) {
+      return [value];
+    }
+    if (ts.isArrayLiteralExpression(value)) {
+      return value.elements.filter(ts.isStringLiteralLike);
+    }
+    return [];
+  }
+
+  /** Range of the raw text between the quotes or backticks of a string literal. */
+  private contentRange(literal: ts.StringLiteralLike, sourceFile: ts.SourceFile): TemplateRange {
+    return { start: literal.getStart(sourceFile) + 1, end: literal.getEnd() - 1 };
+  }
+}
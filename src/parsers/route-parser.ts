@@ -0,0 +1,140 @@
+import ts from 'typescript';
+import type { AngularRoute } from '../types/index.js';
+
+const routerCalls = ['provideRouter', 'provideRoutes', 'forRoot', 'forChild'];
+
+/**
+ * Extracts Angular route definitions from a TypeScript source file: arrays typed as
+ * `Routes`/`Route[]`, arrays passed to `provideRouter` or `RouterModule.forRoot/forChild`,
+ * and the exported arrays of `*.routes.ts` files. Returns all routes, children included.
+ */
+export class RouteParser {
+  parse(content: string, file: string): AngularRoute[] {
+    const isRoutesFile = /\.routes\.ts$/.test(file);
+    if (!isRoutesFile && !/\bRoutes?\b|provideRouter|forRoot|forChild/.test(content)) return [];
+
+    const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const variables = new Map<string, ts.Expression>();
+    const roots: ts.Expression[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+        variables.set(node.name.text, node.initializer);
+        const exported = isRoutesFile && ts.isVariableStatement(node.parent.parent) &&
+          !!ts.getModifiers(node.parent.parent)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+        if (this.isRoutesType(node.type) || exported) this.addRoot(node.initializer, roots);
+      } else if (ts.isExportAssignment(node) && isRoutesFile) {
+        this.addRoot(node.expression, roots);
+      } else if ((ts.isSatisfiesExpression(node) || ts.isAsExpression(node)) && this.isRoutesType(node.type)) {
+        this.addRoot(node.expression, roots);
+      } else if (ts.isCallExpression(node) && node.arguments.length > 0 && routerCalls.includes(this.calleeName(node))) {
+        this.addRoot(node.arguments[0], roots);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    const routes: AngularRoute[] = [];
+    const seen = new Set<ts.ArrayLiteralExpression>();
+    for (const root of roots) {
+      const array = this.resolveArray(root, variables);
+      if (array) this.readRoutes(array, undefined, sourceFile, variables, seen, routes);
+    }
+    return routes;
+  }
+
+  private isRoutesType(type: ts.TypeNode | undefined): boolean {
+    if (!type) return false;
+    const text = type.getText().replace(/\s+/g, '');
+    return text === 'Routes' || text === 'Route[]' || text === 'Array<Route>';
+  }
+
+  private calleeName(call: ts.CallExpression): string {
+    const callee = call.expression;
+    if (ts.isIdentifier(callee)) return callee.text;
+    return ts.isPropertyAccessExpression(callee) ? callee.name.text : '';
+  }
+
+  private addRoot(expression: ts.Expression, roots: ts.Expression[]): void {
+    const inner = this.unwrap(expression);
+    if (ts.isArrayLiteralExpression(inner) || ts.isIdentifier(inner)) roots.push(inner);
+  }
+
+  /** Strips `as Routes`, `satisfies Routes` and parentheses. */
+  private unwrap(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (ts.isAsExpression(current) || ts.isSatisfiesExpression(current) || ts.isParenthesizedExpression(current)) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  /** An array literal, or the array literal a local variable of that name holds. */
+  private resolveArray(expression: ts.Expression, variables: Map<string, ts.Expression>): ts.ArrayLiteralExpression | undefined {
+    const inner = this.unwrap(expression);
+    if (ts.isArrayLiteralExpression(inner)) return inner;
+    if (ts.isIdentifier(inner)) {
+      const initializer = variables.get(inner.text);
+      const resolved = initializer && this.unwrap(initializer);
+      if (resolved && ts.isArrayLiteralExpression(resolved)) return resolved;
+    }
+    return undefined;
+  }
+
+  private readRoutes(
+    array: ts.ArrayLiteralExpression,
+    parent: AngularRoute | undefined,
+    sourceFile: ts.SourceFile,
+    variables: Map<string, ts.Expression>,
+    seen: Set<ts.ArrayLiteralExpression>,
+    routes: AngularRoute[]
+  ): void {
+    if (seen.has(array)) return;
+    seen.add(array);
+
+    const siblings: AngularRoute[] = [];
+    for (const element of array.elements) {
+      if (!ts.isObjectLiteralExpression(element)) continue;
+
+      const properties = new Map<string, ts.Expression>();
+      for (const property of element.properties) {
+        if (ts.isPropertyAssignment(property) && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+          properties.set(property.name.text, property.initializer);
+        } else if (ts.isShorthandPropertyAssignment(property)) {
+          properties.set(property.name.text, property.name);
+        }
+      }
+
+      const title = properties.get('title');
+      const path = properties.get('path');
+      const outlet = properties.get('outlet');
+      const component = properties.get('component');
+      const start = element.getStart(sourceFile);
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+      const firstLine = element.getText(sourceFile).split('\n')[0];
+
+      const route: AngularRoute = {
+        ...(path && ts.isStringLiteralLike(path) ? { path: path.text } : {}),
+        hasTitle: !!title,
+        ...(title && ts.isStringLiteralLike(title) ? { title: title.text } : {}),
+        ...(component ? { component: component.getText(sourceFile) } : {}),
+        loadComponent: properties.has('loadComponent'),
+        hasChildren: properties.has('children') || properties.has('loadChildren'),
+        ...(outlet && ts.isStringLiteralLike(outlet) ? { outlet: outlet.text } : {}),
+        ...(parent ? { parent } : {}),
+        siblings,
+        source: firstLine.length > 120 ? `${firstLine.slice(0, 117)}...` : firstLine,
+        line: line + 1,
+        column: character + 1,
+        start,
+        end: element.getEnd()
+      };
+      siblings.push(route);
+      routes.push(route);
+
+      const children = properties.get('children');
+      const childArray = children && this.resolveArray(children, variables);
+      if (childArray) this.readRoutes(childArray, route, sourceFile, variables, seen, routes);
+    }
+  }
+}
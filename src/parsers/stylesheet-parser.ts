@@ -0,0 +1,191 @@
+import type { AtRule, ChildNode, Container, Declaration, Rule } from 'postcss';
+import scss from 'postcss-scss';
+import type { AngularStylesheet, StyleDeclaration, StyleRule } from '../types/index.js';
+
+// Custom properties declared here apply document-wide and win over scoped redefinitions
+const globalScopeSelectors = [':root', 'html', 'body'];
+
+// Module namespaces resolved by a11y-robot itself rather than from files
+const builtinModules = /^(sass:|@angular\/(material|cdk))/;
+
+const maxMixinDepth = 5;
+
+interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export class StylesheetParser {
+  /**
+   * Parses CSS or SCSS into rules with nested selectors resolved (`&` is replaced by the
+   * parent selector, other nested selectors become descendants), one entry per selector
+   * in a selector list, positioned at the start of the rule's selector. `@include`d mixins
+   * (from this file or `importedMixins`) are expanded in place and reported at the include;
+   * `@media`, `@supports` and `@include` content blocks keep the enclosing selector.
+   */
+  parse(content: string, file: string, importedMixins: Record<string, string> = {}): AngularStylesheet {
+    let root;
+    try {
+      root = scss.parse(content, { from: file });
+    } catch (error) {
+      return { file, content, rules: [], variables: {}, imports: [], mixins: {}, errors: [error instanceof Error ? error.message : String(error)] };
+    }
+
+    const rules: StyleRule[] = [];
+    const variables: Record<string, string> = {};
+    const imports: string[] = [];
+    const mixinSources: Record<string, string> = {};
+    const globalProperties = new Set<string>();
+    const mixins = this.collectMixins(root, importedMixins, mixinSources);
+
+    const visit = (container: Container, parentSelectors: string[], at: SourcePosition | undefined, depth: number): void => {
+      container.each((node: ChildNode) => {
+        if (node.type === 'rule') {
+          const selectors = this.resolveSelectors(parentSelectors, node.selectors);
+          this.collectRule(node, selectors, rules, mixins, at);
+          this.collectCustomProperties(node, selectors, variables, globalProperties);
+          visit(node, selectors, at, depth);
+        } else if (node.type === 'atrule') {
+          if (node.name === 'use' || node.name === 'import' || node.name === 'forward') {
+            imports.push(...this.importPaths(node));
+          } else if (node.name === 'include') {
+            // Nested rules of the mixin (e.g. `&:focus`) apply to the including selector
+            const mixin = mixins.get(this.mixinName(node));
+            if (mixin && depth < maxMixinDepth) visit(mixin, parentSelectors, at ?? this.position(node), depth + 1);
+            if (node.nodes) visit(node, parentSelectors, at, depth);
+          } else if (node.name !== 'mixin' && node.name !== 'function' && node.nodes) {
+            visit(node, parentSelectors, at, depth);
+          }
+        } else if (node.type === 'decl' && node.prop.startsWith('$')) {
+          this.collectVariable(node, variables);
+        }
+      });
+    };
+    visit(root, [], undefined, 0);
+
+    return { file, content, rules, variables, imports, mixins: mixinSources };
+  }
+
+  /** Mixins by name: this file's definitions win over imported ones (kept as source text). */
+  private collectMixins(root: Container, importedMixins: Record<string, string>, ownSources: Record<string, string>): Map<string, Container> {
+    const mixins = new Map<string, Container>();
+
+    for (const [name, source] of Object.entries(importedMixins)) {
+      try {
+        mixins.set(name, scss.parse(source));
+      } catch {
+        // An imported mixin that does not parse on its own is simply not expanded
+      }
+    }
+
+    root.walkAtRules('mixin', node => {
+      const name = this.mixinName(node);
+      mixins.set(name, node);
+      const source = node.toString();
+      ownSources[name] = source.slice(source.indexOf('{') + 1, source.lastIndexOf('}'));
+    });
+
+    return mixins;
+  }
+
+  private mixinName(node: AtRule): string {
+    const name = node.params.trim().match(/^(?:[\w-]+\.)?([\w-]+)/)?.[1] ?? '';
+    return name.replace(/_/g, '-');
+  }
+
+  private resolveSelectors(parentSelectors: string[], selectors: string[]): string[] {
+    if (parentSelectors.length === 0) {
+      return selectors.map(selector => selector.trim());
+    }
+    return parentSelectors.flatMap(parent => selectors.map(selector =>
+      selector.includes('&') ? selector.replace(/&/g, parent).trim() : `${parent} ${selector.trim()}`
+    ));
+  }
+
+  private collectRule(
+    node: Rule,
+    selectors: string[],
+    rules: StyleRule[],
+    mixins: Map<string, Container>,
+    at: SourcePosition | undefined
+  ): void {
+    const ownDeclarations = this.declarationsOf(node, mixins, at, 0);
+    // Declarations are shared by every selector of the list so each is checked once
+    const declarations = ownDeclarations.map(({ node: declaration, at: position }) =>
+      this.toDeclaration(declaration, selectors.join(', '), position)
+    );
+    const body = ownDeclarations.map(({ node: declaration }) => declaration.toString()).join('; ');
+    const source = `${node.selector.replace(/\s+/g, ' ')} { ${body ? `${body}; ` : ''}}`;
+    const position = at ?? this.position(node);
+
+    for (const selector of selectors) {
+      rules.push({ selector, body, declarations, source, ...position });
+    }
+  }
+
+  /** Direct declarations of a rule, including those of `@include`d mixins (positioned at the include). */
+  private declarationsOf(
+    container: Container,
+    mixins: Map<string, Container>,
+    at: SourcePosition | undefined,
+    depth: number
+  ): Array<{ node: Declaration; at: SourcePosition | undefined }> {
+    const declarations: Array<{ node: Declaration; at: SourcePosition | undefined }> = [];
+
+    container.each((child: ChildNode) => {
+      if (child.type === 'decl' && !child.prop.startsWith('$')) {
+        declarations.push({ node: child, at });
+      } else if (child.type === 'atrule' && child.name === 'include' && depth < maxMixinDepth) {
+        const mixin = mixins.get(this.mixinName(child));
+        if (mixin) declarations.push(...this.declarationsOf(mixin, mixins, at ?? this.position(child), depth + 1));
+      }
+    });
+
+    return declarations;
+  }
+
+  private toDeclaration(node: Declaration, selector: string, at: SourcePosition | undefined): StyleDeclaration {
+    return {
+      property: node.prop.toLowerCase(),
+      value: node.value,
+      important: node.important,
+      selector,
+      source: node.toString().replace(/\s+/g, ' '),
+      ...(at ?? this.position(node))
+    };
+  }
+
+  private position(node: ChildNode): SourcePosition {
+    return { line: node.source?.start?.line ?? 1, column: node.source?.start?.column ?? 1 };
+  }
+
+  /** SCSS `!default` only applies when the variable has no value yet. */
+  private collectVariable(node: Declaration, variables: Record<string, string>): void {
+    const isDefault = /!default\b/.test(node.value);
+    if (isDefault && variables[node.prop] !== undefined) return;
+    variables[node.prop] = node.value.replace(/\s*!(default|global)\b/g, '').trim();
+  }
+
+  private collectCustomProperties(
+    node: Rule,
+    selectors: string[],
+    variables: Record<string, string>,
+    globalProperties: Set<string>
+  ): void {
+    const isGlobal = selectors.some(selector => globalScopeSelectors.includes(selector));
+
+    for (const child of node.nodes || []) {
+      if (child.type !== 'decl' || !child.prop.startsWith('--')) continue;
+      if (isGlobal || (variables[child.prop] === undefined && !globalProperties.has(child.prop))) {
+        variables[child.prop] = child.value.trim();
+        if (isGlobal) globalProperties.add(child.prop);
+      }
+    }
+  }
+
+  private importPaths(node: AtRule): string[] {
+    return [...node.params.matchAll(/(['"])(.*?)\1/g)]
+      .map(match => match[2])
+      .filter(request => !builtinModules.test(request) && !/^(https?:)?\/\/|^url\(/.test(request));
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from '@jest/globals';
+import { SuppressionParser } from './suppression-parser.js';
+
+describe('SuppressionParser', () => {
+  const parser = new SuppressionParser();
+
+  it('suppresses the line after a disable-next-line comment', () => {
+    const content = [
+      '<!-- a11y-robot-disable-next-line img-alt, link-name -- decorative spacer -->',
+      '<img src="spacer.gif">'
+    ].join('\n');
+
+    expect(parser.parse(content)).toEqual([
+      { rules: ['img-alt', 'link-name'], justification: 'decorative spacer', line: 1, fromLine: 2, toLine: 2 }
+    ]);
+  });
+
+  it('closes disable blocks at a matching enable and at the end of the file', () => {
+    const content = [
+      '/* a11y-robot-disable color-contrast -- brand colors, reviewed */',
+      '.a { color: #777; }',
+      '/* a11y-robot-enable color-contrast */',
+      '// a11y-robot-disable -- legacy styles',
+      '.b { outline: none; }',
+      '.c { outline: none; }'
+    ].join('\n');
+
+    expect(parser.parse(content)).toEqual([
+      { rules: ['color-contrast'], justification: 'brand colors, reviewed', line: 1, fromLine: 2, toLine: 2 },
+      { rules: [], justification: 'legacy styles', line: 4, fromLine: 5, toLine: 6 }
+    ]);
+  });
+
+  it('keeps directives without a justification and ignores URLs and other comments', () => {
+    const content = [
+      '<a href="https://example.com">x</a>',
+      '<!-- a11y-robot-disable-next-line img-alt -->',
+      '<img src="a.png">',
+      '<!-- not a directive -->'
+    ].join('\n');
+
+    expect(parser.parse(content)).toEqual([{ rules: ['img-alt'], line: 2, fromLine: 3, toLine: 3 }]);
+  });
+
+  it('starts suppressing after the end of a multi-line directive', () => {
+    const content = [
+      '<!--',
+      '  a11y-robot-disable-next-line img-alt -- generated by the CMS',
+      '-->',
+      '<img src="a.png">'
+    ].join('\n');
+
+    expect(parser.parse(content)).toEqual([
+      { rules: ['img-alt'], justification: 'generated by the CMS', line: 1, fromLine: 4, toLine: 4 }
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { getLineAndColumn } from '../utils/source-position.js';
+
+export interface SuppressionDirective {
+  kind: 'disable-next-line' | 'disable' | 'enable';
+  rules: string[];
+  justification?: string;
+  line: number;
+  endLine: number;
+}
+
+export interface SuppressionRange {
+  rules: string[];
+  justification?: string;
+  line: number;
+  fromLine: number;
+  toLine: number;
+}
+
+/**
+ * Finds `a11y-robot-disable-next-line`, `a11y-robot-disable` and `a11y-robot-enable`
+ * directives in HTML (`<!-- -->`), block (`/* *\/`) and line (`//`) comments, e.g.
+ *
+ *   <!-- a11y-robot-disable-next-line img-alt -- decorative spacer image -->
+ *
+ * Rule ids are optional (none means every rule); the justification follows `--`.
+ */
+export class SuppressionParser {
+  private readonly commentPatterns = [
+    /<!--([\s\S]*?)-->/g,
+    /\/\*([\s\S]*?)\*\//g,
+    /(?:^|[^:])\/\/([^\n]*)/g
+  ];
+
+  parse(content: string): SuppressionRange[] {
+    const directives = this.findDirectives(content).sort((a, b) => a.line - b.line);
+    const ranges: SuppressionRange[] = [];
+    const open: SuppressionDirective[] = [];
+    const lastLine = content.split('\n').length;
+
+    for (const directive of directives) {
+      if (directive.kind === 'disable-next-line') {
+        ranges.push(this.toRange(directive, directive.endLine + 1, directive.endLine + 1));
+      } else if (directive.kind === 'disable') {
+        open.push(directive);
+      } else {
+        // `enable` closes every open block it names (or all of them when it names none)
+        for (let i = open.length - 1; i >= 0; i--) {
+          const block = open[i];
+          const closes = directive.rules.length === 0 ||
+            block.rules.length === 0 ||
+            block.rules.some(rule => directive.rules.includes(rule));
+          if (closes) {
+            ranges.push(this.toRange(block, block.endLine + 1, directive.line - 1));
+            open.splice(i, 1);
+          }
+        }
+      }
+    }
+
+    for (const block of open) {
+      ranges.push(this.toRange(block, block.endLine + 1, lastLine));
+    }
+
+    return ranges;
+  }
+
+  private findDirectives(content: string): SuppressionDirective[] {
+    const directives: SuppressionDirective[] = [];
+
+    for (const pattern of this.commentPatterns) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = pattern.exec(content)) !== null) {
+        const directive = match[1].trim().match(/^a11y-robot-(disable-next-line|disable|enable)\b([\s\S]*)$/);
+        if (!directive) continue;
+
+        const line = getLineAndColumn(content, match.index + match[0].indexOf(match[1])).line;
+        if (directives.some(existing => existing.line === line && existing.kind === directive[1])) continue;
+
+        const [ruleList, ...justification] = directive[2].split('--');
+        const text = justification.join('--').trim();
+
+        directives.push({
+          kind: directive[1] as SuppressionDirective['kind'],
+          rules: ruleList.split(/[\s,]+/).filter(Boolean),
+          ...(text ? { justification: text } : {}),
+          line,
+          endLine: getLineAndColumn(content, match.index + match[0].length).line
+        });
+      }
+    }
+
+    return directives;
+  }
+
+  private toRange(directive: SuppressionDirective, fromLine: number, toLine: number): SuppressionRange {
+    return {
+      rules: directive.rules,
+      ...(directive.justification ? { justification: directive.justification } : {}),
+      line: directive.line,
+      fromLine,
+      toLine
+    };
+  }
+}
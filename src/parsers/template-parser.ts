@@ -0,0 +1,284 @@
+import {
+  parseTemplate,
+  BindingType,
+  TmplAstRecursiveVisitor,
+  TmplAstBoundAttribute,
+  TmplAstTextAttribute,
+  type ParseError,
+  type ParseSourceSpan,
+  type ParseTemplateOptions,
+  type TmplAstBoundText,
+  type TmplAstElement,
+  type TmplAstForLoopBlock,
+  type TmplAstTemplate,
+  type TmplAstText,
+} from '@angular/compiler';
+import type {
+  AngularTemplate,
+  TemplateAttribute,
+  TemplateElement,
+  TemplateEvent,
+  TemplateLoop,
+} from '../types/index.js';
+import { getLineAndColumn } from '../utils/source-position.js';
+
+export class ParsedTemplateElement implements TemplateElement {
+  attributes: TemplateAttribute[] = [];
+  events: TemplateEvent[] = [];
+  children: TemplateElement[] = [];
+  parent?: TemplateElement;
+  textContent = '';
+
+  constructor(
+    public tagName: string,
+    public source: string,
+    public line: number,
+    public column: number,
+    public start: number,
+    public end: number
+  ) {}
+
+  hasAttribute(name: string): boolean {
+    return this.attributes.some(attr => attr.name === name);
+  }
+
+  getAttribute(name: string): string | undefined {
+    return this.attributes.find(attr => attr.name === name)?.value;
+  }
+}
+
+/**
+ * Walks the Angular template AST and flattens it into elements (in document order)
+ * and loops, descending into structural directives and control-flow blocks.
+ */
+class TemplateCollector extends TmplAstRecursiveVisitor {
+  readonly elements: TemplateElement[] = [];
+  readonly loops: TemplateLoop[] = [];
+  private readonly stack: ParsedTemplateElement[] = [];
+
+  override visitElement(node: TmplAstElement): void {
+    const start = node.startSourceSpan.start;
+    const element = new ParsedTemplateElement(
+      node.name.toLowerCase(),
+      node.startSourceSpan.toString(),
+      start.line + 1,
+      start.col + 1,
+      start.offset,
+      node.startSourceSpan.end.offset
+    );
+
+    element.attributes.push(
+      ...node.attributes.map(attr => this.toAttribute(attr)),
+      ...node.inputs.map(input => this.toAttribute(input))
+    );
+    element.events.push(...node.outputs.map(output => ({
+      name: output.name + (output.target ? `.${output.target}` : ''),
+      handler: this.expressionSource(output.handler),
+      ...this.position(output.keySpan ?? output.sourceSpan)
+    })));
+
+    const parent = this.stack[this.stack.length - 1];
+    if (parent) {
+      element.parent = parent;
+      parent.children.push(element);
+    }
+    this.elements.push(element);
+
+    this.stack.push(element);
+    super.visitElement(node);
+    this.stack.pop();
+  }
+
+  override visitTemplate(node: TmplAstTemplate): void {
+    const ngForOf = node.templateAttrs.find(attr => attr.name === 'ngForOf');
+    if (ngForOf) {
+      const trackBy = node.templateAttrs.find(attr => attr.name === 'ngForTrackBy');
+      // Report the whole `*ngFor="..."` microsyntax attribute rather than its desugared parts
+      const startTag = node.startSourceSpan.toString();
+      const match = /\*ngFor\s*=\s*("[^"]*"|'[^']*')/.exec(startTag);
+      const start = match ? node.startSourceSpan.start.moveBy(match.index) : ngForOf.sourceSpan.start;
+      this.loops.push({
+        kind: 'ngFor',
+        expression: this.attributeValue(ngForOf) ?? '',
+        ...(trackBy ? { trackBy: this.attributeValue(trackBy) ?? '' } : {}),
+        source: match ? match[0] : ngForOf.sourceSpan.toString(),
+        line: start.line + 1,
+        column: start.col + 1,
+        start: start.offset,
+        end: match ? start.offset + match[0].length : ngForOf.sourceSpan.end.offset
+      });
+    }
+    super.visitTemplate(node);
+  }
+
+  override visitForLoopBlock(block: TmplAstForLoopBlock): void {
+    this.loops.push({
+      kind: 'for',
+      expression: this.expressionSource(block.expression),
+      trackBy: this.expressionSource(block.trackBy),
+      source: block.startSourceSpan.toString(),
+      ...this.position(block.startSourceSpan),
+      start: block.startSourceSpan.start.offset,
+      end: block.startSourceSpan.end.offset
+    });
+    super.visitForLoopBlock(block);
+  }
+
+  override visitText(text: TmplAstText): void {
+    this.appendText(text.value);
+  }
+
+  override visitBoundText(text: TmplAstBoundText): void {
+    this.appendText(this.expressionSource(text.value));
+  }
+
+  private appendText(text: string): void {
+    for (const element of this.stack) {
+      element.textContent += text;
+    }
+  }
+
+  private toAttribute(attr: TmplAstTextAttribute | TmplAstBoundAttribute): TemplateAttribute {
+    if (attr instanceof TmplAstTextAttribute) {
+      return {
+        name: attr.name,
+        value: attr.value,
+        bound: false,
+        ...this.position(attr.keySpan ?? attr.sourceSpan)
+      };
+    }
+
+    // [attr.aria-label] and [alt] both end up as the plain attribute name; DOM properties
+    // such as [ariaLabel] or [htmlFor] are mapped back to their attribute counterparts.
+    let name = attr.name;
+    if (attr.type === BindingType.Property) {
+      name = propertyToAttribute(name);
+    } else if (attr.type === BindingType.Class) {
+      name = `class.${name}`;
+    } else if (attr.type === BindingType.Style) {
+      name = `style.${name}`;
+    }
+
+    return {
+      name,
+      value: this.expressionSource(attr.value),
+      bound: true,
+      ...this.position(attr.keySpan ?? attr.sourceSpan)
+    };
+  }
+
+  private attributeValue(attr: TmplAstTextAttribute | TmplAstBoundAttribute): string | undefined {
+    return attr instanceof TmplAstBoundAttribute ? this.expressionSource(attr.value) : attr.value;
+  }
+
+  private expressionSource(ast: unknown): string {
+    const source = (ast as { source?: string | null }).source;
+    return source ? source.trim() : '';
+  }
+
+  private position(span: ParseSourceSpan): { line: number; column: number } {
+    return { line: span.start.line + 1, column: span.start.col + 1 };
+  }
+}
+
+/** Maps DOM property bindings such as `ariaLabel` or `htmlFor` back to their attribute names. */
+export function propertyToAttribute(property: string): string {
+  if (property === 'htmlFor') return 'for';
+  if (property === 'tabIndex') return 'tabindex';
+  if (/^aria[A-Z]/.test(property)) {
+    return 'aria-' + property.slice(4).toLowerCase();
+  }
+  return property;
+}
+
+export interface TemplateRange {
+  start: number;
+  end: number;
+}
+
+export class TemplateParser {
+  /**
+   * Parses a template. When `range` is given, `content` is the enclosing source file
+   * (e.g. a component `.ts` with an inline `template:`) and all positions are reported
+   * relative to that file.
+   */
+  parse(content: string, file: string, range?: TemplateRange): AngularTemplate {
+    const options: ParseTemplateOptions = {
+      preserveWhitespaces: false,
+      collectCommentNodes: true
+    };
+
+    if (range) {
+      const start = getLineAndColumn(content, range.start);
+      options.range = {
+        startPos: range.start,
+        startLine: start.line - 1,
+        startCol: start.column - 1,
+        endPos: range.end
+      };
+      options.escapedString = true;
+    }
+
+    const parsed = parseTemplate(content, file, options);
+
+    const collector = new TemplateCollector();
+    for (const node of parsed.nodes) {
+      node.visit(collector);
+    }
+
+    return {
+      file,
+      content: range ? content.slice(range.start, range.end) : content,
+      ast: parsed.nodes,
+      elements: collector.elements,
+      loops: [...collector.loops, ...this.untrackedForLoops(content, parsed.errors ?? [])]
+        .sort((a, b) => a.start - b.start),
+      errors: (parsed.errors ?? []).map(error => error.toString())
+    };
+  }
+
+  /**
+   * `@for` blocks without `track` are compile errors that the parser drops from the
+   * AST; they are recovered from the error locations so rules still report them.
+   */
+  private untrackedForLoops(content: string, errors: ParseError[]): TemplateLoop[] {
+    const loops: TemplateLoop[] = [];
+
+    for (const error of errors) {
+      if (!error.msg.includes('must have a "track" expression')) continue;
+
+      const start = error.span.start.offset;
+      const header = this.blockHeader(content, start);
+      if (!header) continue;
+
+      const parameters = header.slice(header.indexOf('(') + 1, header.lastIndexOf(')'));
+      loops.push({
+        kind: 'for',
+        expression: (parameters.split(';')[0].split(/\s+of\s+/)[1] ?? '').trim(),
+        source: header,
+        line: error.span.start.line + 1,
+        column: error.span.start.col + 1,
+        start,
+        end: start + header.length
+      });
+    }
+
+    return loops;
+  }
+
+  /** `@for (...) {` starting at `start`, with balanced parentheses. */
+  private blockHeader(content: string, start: number): string | undefined {
+    const open = content.indexOf('(', start);
+    if (open < 0) return undefined;
+
+    let depth = 0;
+    for (let i = open; i < content.length; i++) {
+      if (content[i] === '(') depth++;
+      if (content[i] === ')' && --depth === 0) {
+        const brace = /^\s*\{/.exec(content.slice(i + 1));
+        return content.slice(start, i + 1 + (brace ? brace[0].length : 0));
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from '@jest/globals';
+import { RuleEngine } from './rule-engine.js';
+import { angularRules, ariaRules, colorRules, documentRules, htmlRules, keyboardRules, materialRules } from './index.js';
+import { RouteParser } from '../parsers/route-parser.js';
+import { StylesheetParser } from '../parsers/stylesheet-parser.js';
+import { TemplateParser } from '../parsers/template-parser.js';
+import type { AccessibilityRule, RuleContext } from '../types/index.js';
+
+const templateParser = new TemplateParser();
+const stylesheetParser = new StylesheetParser();
+const routeParser = new RouteParser();
+
+const template = (content: string): RuleContext => ({ file: 'app.component.html', template: templateParser.parse(content, 'app.component.html') });
+const stylesheet = (content: string): RuleContext => ({ file: 'app.component.scss', stylesheet: stylesheetParser.parse(content, 'app.component.scss') });
+const routes = (content: string): RuleContext => ({
+  file: 'app.routes.ts',
+  routing: { routes: routeParser.parse(content, 'app.routes.ts'), customTitleStrategy: false }
+});
+const document = (index: string, shell?: string): RuleContext => {
+  const indexTemplate = templateParser.parse(index, 'index.html');
+  return {
+    file: 'index.html',
+    template: indexTemplate,
+    document: { index: indexTemplate, ...(shell ? { shell: templateParser.parse(shell, 'app.component.html') } : {}) }
+  };
+};
+
+const violations = (rules: AccessibilityRule[], context: RuleContext) =>
+  [...new Set(new RuleEngine(rules).run(context).map(issue => issue.rule))].sort();
+
+describe('rule packs', () => {
+  it('html', () => {
+    expect(violations(htmlRules, template('<img src="a.png"><button>Save</button><a href="/x"></a>')))
+      .toEqual(['button-type', 'img-alt', 'link-name']);
+    expect(violations(htmlRules, template('<img src="a.png" alt="Logo"><button type="button">Save</button><a href="/x">Orders</a>')))
+      .toEqual([]);
+  });
+
+  it('document', () => {
+    const shell = '<a href="#main">Skip to content</a><main id="main"><router-outlet></router-outlet></main>';
+    expect(violations(documentRules, document([
+      '<html><head><meta name="viewport" content="width=device-width, user-scalable=no"></head>',
+      '<body><app-root></app-root></body></html>'
+    ].join(''), shell)))
+      .toEqual(['document-title', 'html-lang', 'meta-viewport']);
+    expect(violations(documentRules, document([
+      '<html lang="en"><head><title>Shop</title><meta name="viewport" content="width=device-width, initial-scale=1"></head>',
+      '<body><app-root></app-root></body></html>'
+    ].join(''), shell))).toEqual([]);
+  });
+
+  it('document: app shell components', () => {
+    const index = '<html lang="en"><head><title>Shop</title></head><body><app-root></app-root></body></html>';
+    const shellRules = documentRules.filter(rule => rule.id === 'skip-link' || rule.id === 'landmark-main');
+    const helpTexts = (context: RuleContext) => new RuleEngine(shellRules).run(context).map(issue => issue.helpText);
+
+    // Components next to the outlet do not provide the routed page's landmarks
+    expect(violations(shellRules, document(index, '<app-toast></app-toast><router-outlet></router-outlet>')))
+      .toEqual(['landmark-main', 'skip-link']);
+    expect(violations(shellRules, document(index, '<mat-sidenav-container><router-outlet></router-outlet></mat-sidenav-container>')))
+      .toEqual(['landmark-main', 'skip-link']);
+    // A layout component around the outlet can
+    expect(violations(shellRules, document(index, '<app-layout><router-outlet></router-outlet></app-layout>')))
+      .toEqual([]);
+    // Components the check cannot see into are named in the finding
+    expect(helpTexts(document(index, '<app-header></app-header><app-page></app-page>'))[0])
+      .toMatch(/^The app shell also renders <app-header>, <app-page>; if one of them provides it, suppress this finding\. /);
+    expect(helpTexts(document(index))[0])
+      .toMatch(/^The app shell \(<app-root>\) was not found, so only index\.html was checked\. /);
+  });
+
+  it('aria', () => {
+    expect(violations(ariaRules, template('<div role="buton" aria-lable="x">Menu</div>')))
+      .toEqual(['aria-valid-attr', 'aria-valid-role']);
+    expect(violations(ariaRules, template('<nav aria-label="Main"><ul><li>Home</li></ul></nav>')))
+      .toEqual([]);
+  });
+
+  it('angular', () => {
+    expect(violations(angularRules, routes("export const routes: Routes = [{ path: 'orders', component: OrdersComponent }];")))
+      .toEqual(['route-title']);
+    expect(violations(angularRules, routes("export const routes: Routes = [{ path: 'orders', title: 'Orders', component: OrdersComponent }];")))
+      .toEqual([]);
+  });
+
+  it('material', () => {
+    expect(violations(materialRules, template('<button mat-icon-button type="button"><mat-icon>delete</mat-icon></button>')))
+      .toContain('mat-icon-button-name');
+    expect(violations(materialRules, template('<button mat-icon-button type="button" aria-label="Delete"><mat-icon aria-hidden="true">delete</mat-icon></button>')))
+      .toEqual([]);
+  });
+
+  it('keyboard', () => {
+    expect(violations(keyboardRules, template('<div (click)="open()">Open</div>'))).toContain('click-keyboard');
+    expect(violations(keyboardRules, stylesheet('button:focus { outline: none; }'))).toEqual(['outline-none-focus']);
+    expect(violations(keyboardRules, stylesheet('button:focus { outline: none; box-shadow: 0 0 0 2px #000; }'))).toEqual([]);
+  });
+
+  it('color', () => {
+    expect(violations(colorRules, stylesheet('.hint { color: #999; background-color: #fff; }'))).toEqual(['color-contrast']);
+    expect(violations(colorRules, stylesheet('.hint { color: #333; background-color: #fff; }'))).toEqual([]);
+  });
+});
@@ -1,4 +1,648 @@
-import type { AccessibilityRule } from '../types/index.js';
+import type {
+  AccessibilityRule,
+  AngularRoute,
+  AngularTemplate,
+  ComponentContract,
+  IssueFix,
+  RuleCategory,
+  RuleContext,
+  StyleDeclaration,
+  StyleRule,
+  TemplateElement,
+  TemplateLoop,
+} from '../types/index.js';
+import {
+  isAbstractRole,
+  isAriaAttribute,
+  isValidRole,
+  requiredAttributes,
+  requiredContextRoles,
+  requiredOwnedRoles,
+  roleSupportsAttribute,
+  suggestAriaAttribute,
+  suggestRole
+} from '../utils/aria-spec.js';
+import { propertyToAttribute } from '../parsers/template-parser.js';
+import { contrastRatio, formatColor, type RgbaColor } from '../utils/color.js';
+import { getGenericLinkText, hasNewWindowWarning } from '../utils/link-phrases.js';
+import { StyleValueResolver } from '../utils/style-values.js';
+
+const labelledInputTypes = ['text', 'email', 'password', 'number', 'tel', 'url'];
+
+function hasAccessibleName(element: TemplateElement): boolean {
+  return !!element.textContent.trim() ||
+    element.hasAttribute('aria-label') ||
+    element.hasAttribute('aria-labelledby');
+}
+
+function headingLevel(element: TemplateElement): number {
+  return /^h[1-6]$/.test(element.tagName) ? parseInt(element.tagName.charAt(1)) : 0;
+}
+
+const iconClassPattern = /(^|\s)(fa[srlbd]?|bi|glyphicon|material-icons|material-symbols-\w+|icon)(\s|$)|(^|\s)(fa|bi|glyphicon|icon|ion)-[\w-]+/;
+
+function isIconElement(element: TemplateElement): boolean {
+  return (element.tagName === 'i' || element.tagName === 'span') &&
+    iconClassPattern.test(element.getAttribute('class') || '');
+}
+
+function closest(element: TemplateElement, tagName: string): TemplateElement | undefined {
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (parent.tagName === tagName) return parent;
+  }
+  return undefined;
+}
+
+function hasAncestor(element: TemplateElement, tagName: string): boolean {
+  return !!closest(element, tagName);
+}
+
+function descendants(element: TemplateElement): TemplateElement[] {
+  return element.children.flatMap(child => [child, ...descendants(child)]);
+}
+
+const materialIconButtonAttributes = ['mat-icon-button', 'mat-mini-fab', 'mat-fab'];
+
+function isMaterialIconButton(element: TemplateElement): boolean {
+  return materialIconButtonAttributes.some(attribute => element.hasAttribute(attribute));
+}
+
+function isInteractive(element: TemplateElement): boolean {
+  const role = element.getAttribute('role');
+  return element.tagName === 'button' || element.tagName === 'a' || role === 'button' || role === 'link';
+}
+
+/** Text content without `<mat-icon>` ligature text such as "delete". */
+function textWithoutIcons(element: TemplateElement): string {
+  return descendants(element)
+    .filter(child => child.tagName === 'mat-icon')
+    .reduce((remaining, icon) => remaining.replace(icon.textContent, ''), element.textContent)
+    .trim();
+}
+
+/**
+ * Like hasAccessibleName, but ignoring `<mat-icon>` ligature text: mat-icon hides
+ * itself from assistive technology, so that text never becomes the name.
+ */
+function hasMaterialName(element: TemplateElement): boolean {
+  return !!textWithoutIcons(element) ||
+    element.hasAttribute('aria-label') ||
+    element.hasAttribute('aria-labelledby');
+}
+
+function isLink(element: TemplateElement): boolean {
+  return element.tagName === 'a' || element.hasAttribute('routerLink');
+}
+
+/** A link's name may also come from its title or from labelled images and icons inside it. */
+function linkHasName(element: TemplateElement): boolean {
+  return hasMaterialName(element) ||
+    element.hasAttribute('title') ||
+    descendants(element).some(child =>
+      (child.tagName === 'img' && !!child.getAttribute('alt')?.trim()) || child.hasAttribute('aria-label')
+    );
+}
+
+function localesOf(context: RuleContext): string[] {
+  return context.config?.locales?.length ? context.config.locales : ['en'];
+}
+
+/**
+ * The link's name when it is one of the configured generic phrases ("click here", "read more").
+ * A static aria-label replaces the text; bound labels and aria-labelledby are not checked.
+ */
+function genericLinkName(element: TemplateElement, context: RuleContext): string | undefined {
+  const label = element.attributes.find(attr => attr.name === 'aria-label');
+  if (element.hasAttribute('aria-labelledby') || label?.bound) return undefined;
+
+  const name = (label ? label.value ?? '' : textWithoutIcons(element))
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\p{P}\p{S}]+|[\s\p{P}\p{S}]+$/gu, '');
+  return name && getGenericLinkText(localesOf(context), context.config?.genericLinkText).has(name) ? name : undefined;
+}
+
+/** A form control labelled by the `<mat-label>` of its enclosing `<mat-form-field>`. */
+function hasMatLabel(element: TemplateElement): boolean {
+  const formField = element.tagName === 'mat-form-field' ? element : closest(element, 'mat-form-field');
+  return !!formField && descendants(formField).some(child => child.tagName === 'mat-label');
+}
+
+/** The configured contract of a design-system component, by its element selector. */
+function contractOf(element: TemplateElement, context: RuleContext): ComponentContract | undefined {
+  const contracts = context.config?.components;
+  return contracts && Object.hasOwn(contracts, element.tagName) ? contracts[element.tagName] : undefined;
+}
+
+/** Whether one of the contract's name inputs is set, as `label="..."`, `[label]` or `[ariaLabel]`. */
+function hasNameInput(element: TemplateElement, contract: ComponentContract): boolean {
+  return (contract.nameInputs || []).some(input => {
+    const attribute = element.attributes.find(attr => attr.name === input || attr.name === propertyToAttribute(input));
+    return !!attribute && (attribute.bound || !!attribute.value?.trim());
+  });
+}
+
+/** A native `<label>` or a configured label component that wraps the control and names it. */
+function labelledByAncestor(element: TemplateElement, context: RuleContext): boolean {
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (parent.tagName === 'label') return true;
+    const contract = contractOf(parent, context);
+    if (contract?.kind === 'label') {
+      return contract.nameInputs?.length ? hasNameInput(parent, contract) : !!parent.textContent.trim();
+    }
+  }
+  return false;
+}
+
+const nativeInteractiveElements = ['a', 'button', 'input', 'select', 'textarea', 'summary', 'option'];
+
+/** Whether the element listens to any of the DOM events, e.g. `(keydown.enter)` counts as keydown. */
+function hasEvent(element: TemplateElement, ...names: string[]): boolean {
+  return element.events.some(event => names.includes(event.name.split('.')[0]));
+}
+
+/**
+ * A `(click)` handler on an element that is not natively interactive. Custom elements in
+ * templates are skipped, since their own host bindings are checked instead.
+ */
+function handlesClickWithoutSemantics(element: TemplateElement, context: RuleContext): boolean {
+  if (!hasEvent(element, 'click') || nativeInteractiveElements.includes(element.tagName)) return false;
+  if (element.getAttribute('aria-hidden') === 'true') return false;
+  return element === context.host || !element.tagName.includes('-');
+}
+
+function missingKeyboardSupport(element: TemplateElement): string[] {
+  const tabindex = element.getAttribute('tabindex');
+  const missing: string[] = [];
+  if (tabindex === undefined || tabindex.trim() === '-1') missing.push('tabindex');
+  if (!hasEvent(element, 'keydown', 'keyup', 'keypress')) missing.push('(keydown) handler');
+  return missing;
+}
+
+function missingFocusEquivalents(element: TemplateElement): string[] {
+  const missing: string[] = [];
+  if (hasEvent(element, 'mouseover') && !hasEvent(element, 'focus', 'focusin')) missing.push('(mouseover) without (focus)');
+  if (hasEvent(element, 'mouseout') && !hasEvent(element, 'blur', 'focusout')) missing.push('(mouseout) without (blur)');
+  return missing;
+}
+
+/**
+ * An attribute's static value, also for bindings to a string literal such as
+ * `[attr.role]="'tab'"`; undefined when absent or computed at runtime.
+ */
+function literalAttribute(element: TemplateElement, name: string): string | undefined {
+  const attribute = element.attributes.find(attr => attr.name === name);
+  if (!attribute) return undefined;
+  if (!attribute.bound) return attribute.value ?? '';
+  return /^(['"])(.*)\1$/.exec(attribute.value || '')?.[2];
+}
+
+function ariaAttributeNames(element: TemplateElement): string[] {
+  return [...new Set(element.attributes.map(attr => attr.name).filter(name => name.startsWith('aria-')))];
+}
+
+/** Tokens of a static `role` (the first valid one applies, the rest are fallbacks). */
+function roleTokens(element: TemplateElement): string[] | undefined {
+  return literalAttribute(element, 'role')?.trim().split(/\s+/).filter(Boolean);
+}
+
+const sectioningElements = ['article', 'aside', 'main', 'nav', 'section'];
+
+/** The role HTML gives an element without a role attribute (ARIA in HTML). */
+function implicitRole(element: TemplateElement): string | undefined {
+  const tag = element.tagName;
+  if (/^h[1-6]$/.test(tag)) return 'heading';
+
+  switch (tag) {
+    case 'a':
+    case 'area':
+      return element.hasAttribute('href') || element.hasAttribute('routerLink') ? 'link' : 'generic';
+    case 'input': {
+      const type = (literalAttribute(element, 'type') || 'text').toLowerCase();
+      const inputRoles: Record<string, string> = {
+        checkbox: 'checkbox', radio: 'radio', range: 'slider', number: 'spinbutton', search: 'searchbox',
+        button: 'button', submit: 'button', reset: 'button', image: 'button'
+      };
+      if (inputRoles[type]) return inputRoles[type];
+      return ['text', 'email', 'tel', 'url'].includes(type)
+        ? element.hasAttribute('list') ? 'combobox' : 'textbox'
+        : undefined;
+    }
+    case 'select':
+      return element.hasAttribute('multiple') || Number(literalAttribute(element, 'size')) > 1 ? 'listbox' : 'combobox';
+    case 'img':
+      return literalAttribute(element, 'alt') === '' ? 'presentation' : 'img';
+    case 'header':
+      return sectioningElements.some(name => hasAncestor(element, name)) ? 'generic' : 'banner';
+    case 'footer':
+      return sectioningElements.some(name => hasAncestor(element, name)) ? 'generic' : 'contentinfo';
+    case 'section':
+      return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') ? 'region' : 'generic';
+    case 'td':
+      return 'cell';
+    case 'th':
+      return literalAttribute(element, 'scope') === 'row' ? 'rowheader' : 'columnheader';
+  }
+
+  const roles: Record<string, string> = {
+    article: 'article', aside: 'complementary', blockquote: 'blockquote', button: 'button', caption: 'caption',
+    code: 'code', dd: 'definition', del: 'deletion', details: 'group', dialog: 'dialog', dt: 'term', em: 'emphasis',
+    fieldset: 'group', figure: 'figure', form: 'form', hr: 'separator', ins: 'insertion', li: 'listitem',
+    main: 'main', menu: 'list', meter: 'meter', nav: 'navigation', ol: 'list', optgroup: 'group', option: 'option',
+    output: 'status', p: 'paragraph', progress: 'progressbar', strong: 'strong', sub: 'subscript', sup: 'superscript',
+    table: 'table', tbody: 'rowgroup', textarea: 'textbox', tfoot: 'rowgroup', thead: 'rowgroup', time: 'time',
+    tr: 'row', ul: 'list', b: 'generic', div: 'generic', i: 'generic', small: 'generic', span: 'generic', u: 'generic'
+  };
+  return Object.hasOwn(roles, tag) ? roles[tag] : undefined;
+}
+
+/** The explicit role in effect, or the implicit one; undefined when it is not known statically. */
+function effectiveRole(element: TemplateElement): string | undefined {
+  if (element.hasAttribute('role')) {
+    const tokens = roleTokens(element);
+    if (!tokens) return undefined;
+    const role = tokens.find(isValidRole);
+    if (role) return role;
+  }
+  return element.tagName.includes('-') ? undefined : implicitRole(element);
+}
+
+/**
+ * The role an element contributes to the accessibility tree: undefined when roles pass
+ * through it (generic containers, `ng-container`) and `'unknown'` when it cannot be told
+ * statically (components, projected content, role bindings).
+ */
+function treeRole(element: TemplateElement): string | undefined {
+  if (element.tagName === 'ng-container' || element.tagName === 'ng-template') return undefined;
+  if (element.tagName === 'ng-content') return 'unknown';
+  if (element.hasAttribute('role') && !roleTokens(element)) return 'unknown';
+
+  const role = effectiveRole(element);
+  if (!role) return element.tagName.includes('-') ? 'unknown' : undefined;
+  return role === 'generic' || role === 'none' || role === 'presentation' ? undefined : role;
+}
+
+/** Roles of the elements an element owns, looking through elements without a role. */
+function ownedRoles(element: TemplateElement): string[] {
+  return element.children.flatMap(child => {
+    const role = treeRole(child);
+    return role === undefined ? ownedRoles(child) : [role];
+  });
+}
+
+/** Role of the nearest ancestor with one; past the template root, the component host's. */
+function contextRole(element: TemplateElement, context: RuleContext): string | undefined {
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    const role = treeRole(parent);
+    if (role !== undefined) return role;
+  }
+  return context.host ? treeRole(context.host) : undefined;
+}
+
+/** Explicit role checked against the ARIA tables (native elements provide their own states). */
+function explicitRole(element: TemplateElement): string | undefined {
+  return roleTokens(element)?.find(isValidRole);
+}
+
+function invalidRoles(element: TemplateElement): string[] {
+  const tokens = roleTokens(element) || [];
+  return tokens.filter(token => !isValidRole(token));
+}
+
+function unknownAriaAttributes(element: TemplateElement): string[] {
+  return ariaAttributeNames(element).filter(name => !isAriaAttribute(name));
+}
+
+function unsupportedAriaAttributes(element: TemplateElement): string[] {
+  const role = effectiveRole(element);
+  if (!role) return [];
+  return ariaAttributeNames(element).filter(name => isAriaAttribute(name) && !roleSupportsAttribute(role, name));
+}
+
+function missingRequiredAttributes(element: TemplateElement): string[] {
+  const role = explicitRole(element);
+  // A redundant role such as <h2 role="heading"> keeps the native element's states
+  if (!role || role === implicitRole(element)) return [];
+  // Native checkboxes and radios expose their checked state without aria-checked
+  if (element.tagName === 'input' && ['checkbox', 'radio'].includes(literalAttribute(element, 'type') || '')) {
+    return requiredAttributes(role).filter(name => name !== 'aria-checked' && !element.hasAttribute(name));
+  }
+  return requiredAttributes(role).filter(name => !element.hasAttribute(name));
+}
+
+function isFocusable(element: TemplateElement): boolean {
+  if (element.hasAttribute('tabindex')) {
+    const tabindex = literalAttribute(element, 'tabindex');
+    return tabindex !== undefined && Number(tabindex) >= 0;
+  }
+  if (element.hasAttribute('disabled')) return false;
+
+  switch (element.tagName) {
+    case 'a':
+      return element.hasAttribute('href') || element.hasAttribute('routerLink');
+    case 'button':
+    case 'select':
+    case 'textarea':
+    case 'summary':
+      return true;
+    case 'input':
+      return literalAttribute(element, 'type') !== 'hidden';
+    default: {
+      const editable = literalAttribute(element, 'contenteditable');
+      return editable !== undefined && editable !== 'false';
+    }
+  }
+}
+
+/** The element itself or a descendant that stays focusable although aria-hidden="true". */
+function hiddenFocusable(element: TemplateElement): TemplateElement | undefined {
+  if (literalAttribute(element, 'aria-hidden') !== 'true' || element.hasAttribute('inert')) return undefined;
+  return [element, ...descendants(element)].find(candidate => isFocusable(candidate) && !candidate.hasAttribute('inert'));
+}
+
+const idReferenceAttributes = [
+  'aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns',
+  'aria-activedescendant', 'aria-errormessage', 'aria-details', 'aria-flowto'
+];
+
+const templateIds = new WeakMap<AngularTemplate, Set<string> | undefined>();
+
+/** Static IDs of the template (and host); undefined if some ID is computed at runtime. */
+function idsOf(context: RuleContext): Set<string> | undefined {
+  const template = context.template;
+  if (!template) return undefined;
+  if (!templateIds.has(template)) {
+    const elements = [...(template.elements || []), ...(context.host ? [context.host] : [])];
+    const dynamic = elements.some(element => element.hasAttribute('id') && literalAttribute(element, 'id') === undefined);
+    templateIds.set(template, dynamic ? undefined : new Set(elements.map(element => literalAttribute(element, 'id') || '')));
+  }
+  return templateIds.get(template);
+}
+
+function missingIdReferences(element: TemplateElement, context: RuleContext): string[] {
+  const ids = idsOf(context);
+  if (!ids) return [];
+  return idReferenceAttributes.flatMap(name =>
+    (literalAttribute(element, name) || '').split(/\s+/)
+      .filter(id => id && !ids.has(id))
+      .map(id => `${name}="${id}"`)
+  );
+}
+
+/** index.html and the app shell template, when the rule runs on an application document. */
+function documentTemplates(context: RuleContext): AngularTemplate[] {
+  const document = context.document;
+  return document ? [document.index, ...(document.shell ? [document.shell] : [])] : [];
+}
+
+function documentElements(context: RuleContext): TemplateElement[] {
+  return documentTemplates(context).flatMap(template => template.elements || []);
+}
+
+// Elements of Angular itself and of component libraries, which do not render an application's landmarks
+const libraryElementPrefixes = ['ng-', 'mat-', 'cdk-'];
+
+function isProjectComponent(element: TemplateElement): boolean {
+  return element.tagName.includes('-') && element.tagName !== 'router-outlet' &&
+    !libraryElementPrefixes.some(prefix => element.tagName.startsWith(prefix));
+}
+
+/**
+ * Whether the app shell renders the routed pages inside a project component, e.g.
+ * `<app-layout><router-outlet></router-outlet></app-layout>`, whose template can provide
+ * the skip link and landmarks instead of the shell.
+ */
+function hasOpaqueShell(context: RuleContext): boolean {
+  const outlet = (context.document?.shell?.elements || []).find(element => element.tagName === 'router-outlet');
+  for (let parent = outlet?.parent; parent; parent = parent.parent) {
+    if (isProjectComponent(parent)) return true;
+  }
+  return false;
+}
+
+/** Project components of the document this check cannot see into, which may provide what it looks for. */
+function unseenComponentsNote(context: RuleContext): string | undefined {
+  const document = context.document;
+  if (!document) return undefined;
+
+  const components = [...new Set(((document.shell ?? document.index).elements || [])
+    .filter(isProjectComponent)
+    .map(element => `<${element.tagName}>`))];
+  if (components.length === 0) return undefined;
+
+  return document.shell
+    ? `The app shell also renders ${components.join(', ')}; if one of them provides it, suppress this finding.`
+    : `The app shell (${components.join(', ')}) was not found, so only index.html was checked.`;
+}
+
+function viewportProblems(element: TemplateElement): string[] {
+  if (element.tagName !== 'meta' || literalAttribute(element, 'name')?.toLowerCase() !== 'viewport') return [];
+
+  const settings = new Map((literalAttribute(element, 'content') || '').split(/[,;]/).map(setting => {
+    const [key, value = ''] = setting.split('=').map(part => part.trim().toLowerCase());
+    return [key, value] as [string, string];
+  }));
+  const problems: string[] = [];
+  const userScalable = settings.get('user-scalable');
+  if (userScalable === 'no' || userScalable === '0') problems.push(`user-scalable=${userScalable}`);
+  const maximumScale = settings.get('maximum-scale');
+  if (maximumScale && Number(maximumScale) < 2) problems.push(`maximum-scale=${maximumScale}`);
+  return problems;
+}
+
+function hasSkipLink(context: RuleContext): boolean {
+  return documentElements(context).some(element =>
+    (element.tagName === 'a' && (/^#./.test(literalAttribute(element, 'href') || '') || element.hasAttribute('fragment'))) ||
+    ((element.tagName === 'a' || element.tagName === 'button') && /\bskip\b/i.test(element.textContent))
+  );
+}
+
+const distinguishableLandmarks = ['banner', 'complementary', 'contentinfo', 'main', 'navigation', 'search'];
+
+/** Landmark roles that occur more than once with at least one occurrence unlabelled. */
+function unlabelledDuplicateLandmarks(context: RuleContext): string[] {
+  const landmarks = new Map<string, { locations: string[]; unlabelled: boolean }>();
+
+  for (const template of documentTemplates(context)) {
+    for (const element of template.elements || []) {
+      const role = effectiveRole(element);
+      if (!role || !distinguishableLandmarks.includes(role)) continue;
+      const landmark = landmarks.get(role) || { locations: [], unlabelled: false };
+      landmark.locations.push(`${template.file}:${element.line}`);
+      landmark.unlabelled ||= !element.hasAttribute('aria-label') && !element.hasAttribute('aria-labelledby');
+      landmarks.set(role, landmark);
+    }
+  }
+
+  return [...landmarks]
+    .filter(([, landmark]) => landmark.locations.length > 1 && landmark.unlabelled)
+    .map(([role, landmark]) => `${role} (${landmark.locations.join(', ')})`);
+}
+
+/**
+ * Whether the page a route renders gets a title: from the route or an ancestor (the router
+ * uses the deepest title of the activated primary routes) or from a custom TitleStrategy.
+ * Only leaf routes of the primary outlet that render a component are checked.
+ */
+function routeHasTitle(route: AngularRoute, context: RuleContext): boolean {
+  const rendersPage = (!!route.component || route.loadComponent) && !route.hasChildren;
+  const primary = !route.outlet || route.outlet === 'primary';
+  if (!rendersPage || !primary || context.routing?.customTitleStrategy) return true;
+
+  for (let current: AngularRoute | undefined = route; current; current = current.parent) {
+    if (current.hasTitle) return true;
+  }
+  return false;
+}
+
+/** An earlier sibling route with the same static title. */
+function duplicateTitleRoute(route: AngularRoute): AngularRoute | undefined {
+  if (route.title === undefined) return undefined;
+  const title = route.title.trim().toLowerCase();
+  return route.siblings
+    .slice(0, route.siblings.indexOf(route))
+    .find(sibling => sibling.title?.trim().toLowerCase() === title);
+}
+
+const focusPseudoClass = /:focus(-visible)?(?![\w-])/;
+
+function removesOutline(rule: StyleRule): boolean {
+  return rule.declarations.some(declaration =>
+    (declaration.property === 'outline' && /^(none|0)\b/.test(declaration.value.trim())) ||
+    (declaration.property === 'outline-style' && declaration.value.trim() === 'none') ||
+    (declaration.property === 'outline-width' && /^0([a-z]+)?$/.test(declaration.value.trim()))
+  );
+}
+
+/** Whether the rule draws something that makes focus visible without the default outline. */
+function providesFocusIndicator(rule: StyleRule): boolean {
+  return rule.declarations.some(declaration => {
+    const value = declaration.value.trim();
+    switch (declaration.property) {
+      case 'box-shadow':
+      case 'text-decoration':
+      case 'text-decoration-line':
+        return !/^none\b/.test(value);
+      case 'outline':
+        return !/^(none|0)\b/.test(value);
+      case 'outline-style':
+        return value !== 'none';
+      case 'outline-offset':
+      case 'background':
+      case 'background-color':
+        return true;
+      default:
+        return /^border(-(top|right|bottom|left))?(-(color|width|style))?$/.test(declaration.property) &&
+          !/^(none|0)\b/.test(value);
+    }
+  });
+}
+
+/** The selector without its focus states, so `.btn`, `.btn:focus` and `.btn:focus-visible` compare equal. */
+function withoutFocusState(selector: string): string {
+  return selector
+    .replace(/:not\(\s*:focus(-visible)?\s*\)/g, '')
+    .replace(new RegExp(focusPseudoClass.source, 'g'), '')
+    .trim();
+}
+
+/** `:focus`/`:focus-visible` rules (not `:focus-within`) for the same element as `rule`. */
+function focusRulesFor(rule: StyleRule, context: RuleContext): StyleRule[] {
+  const base = withoutFocusState(rule.selector);
+  return (context.stylesheet?.rules || []).filter(other =>
+    focusPseudoClass.test(other.selector.replace(/:not\([^)]*\)/g, '')) &&
+    withoutFocusState(other.selector) === base
+  );
+}
+
+interface ColorContrast {
+  ratio: number;
+  foreground: RgbaColor;
+  background: RgbaColor;
+  largeText: boolean;
+}
+
+/**
+ * Pairs a `color` declaration with the `background`/`background-color` of the same rule
+ * and measures their contrast; undefined when either value cannot be resolved statically.
+ */
+function colorContrast(declaration: StyleDeclaration, context: RuleContext): ColorContrast | undefined {
+  if (declaration.property !== 'color') return undefined;
+
+  const rule = (context.stylesheet?.rules || []).find(candidate => candidate.declarations.includes(declaration));
+  const background = rule?.declarations
+    .filter(candidate => candidate.property === 'background-color' || candidate.property === 'background')
+    .pop();
+  if (!rule || !background) return undefined;
+
+  const resolver = new StyleValueResolver(context.stylesheet?.variables);
+  const foregroundColor = resolver.resolveColor(declaration.value);
+  const backgroundColor = background.property === 'background'
+    ? resolver.resolveBackgroundColor(background.value)
+    : resolver.resolveColor(background.value);
+  if (!foregroundColor || !backgroundColor) return undefined;
+
+  return {
+    ratio: contrastRatio(foregroundColor, backgroundColor),
+    foreground: foregroundColor,
+    background: backgroundColor,
+    largeText: isLargeText(rule, resolver)
+  };
+}
+
+/** WCAG large text: at least 18pt (24px), or 14pt (18.66px) when bold. */
+function isLargeText(rule: StyleRule, resolver: StyleValueResolver): boolean {
+  const value = (property: string) => rule.declarations.filter(candidate => candidate.property === property).pop()?.value;
+  const size = value('font-size');
+  const match = size ? resolver.resolveLength(size) : undefined;
+  if (match === undefined) return false;
+
+  const weight = value('font-weight')?.trim();
+  const bold = weight === 'bold' || weight === 'bolder' || (!!weight && parseInt(weight) >= 700);
+  return match >= 24 || (bold && match >= 18.66);
+}
+
+function describeContrast(contrast: ColorContrast | undefined, required: number): string | undefined {
+  if (!contrast) return undefined;
+  return `Contrast ratio ${contrast.ratio.toFixed(2)}:1 (${formatColor(contrast.foreground)} on ${formatColor(contrast.background)}) is below ${required}:1${contrast.largeText ? ' for large text' : ''}.`;
+}
+
+/** Inserts ` attribute` right after the tag name, leaving the rest of the start tag as written. */
+function insertAttribute(element: TemplateElement, context: RuleContext, attribute: string, description: string): IssueFix {
+  const offset = element.start + 1 + element.tagName.length;
+  return { description, edits: [{ file: context.file, start: offset, end: offset, text: ` ${attribute}` }] };
+}
+
+/**
+ * `@for` gets `track $index` (what Angular's control-flow migration uses); `*ngFor` gets
+ * an index-based trackBy function added to its component class.
+ */
+function trackLoopFix(loop: TemplateLoop, context: RuleContext): IssueFix | undefined {
+  if (loop.kind === 'for') {
+    const offset = loop.start + loop.source.lastIndexOf(')');
+    return {
+      description: 'Track items by index',
+      edits: [{ file: context.file, start: offset, end: offset, text: '; track $index' }]
+    };
+  }
+
+  const component = context.component;
+  if (!component || component.classEnd === undefined) return undefined;
+
+  const fix: IssueFix = {
+    description: `Add a trackByIndex function to ${component.className}`,
+    edits: [{ file: context.file, start: loop.end - 1, end: loop.end - 1, text: '; trackBy: trackByIndex' }]
+  };
+  if (!/\btrackByIndex\s*\(/.test(component.content)) {
+    fix.edits.push({
+      file: component.file,
+      start: component.classEnd,
+      end: component.classEnd,
+      text: '\n  trackByIndex(index: number): number {\n    return index;\n  }\n'
+    });
+  }
+  return fix;
+}
 
 // Basic HTML accessibility rules
 export const htmlRules: AccessibilityRule[] = [
@@ -10,9 +654,12 @@ export const htmlRules: AccessibilityRule[] = [
     wcagLevel: 'A',
     severity: 'serious',
     category: 'html',
-    check: (element: any) => {
-      return element.tagName === 'IMG' && element.hasAttribute('alt');
+    target: 'element',
+    check: (element: TemplateElement) => {
+      return element.tagName !== 'img' || element.hasAttribute('alt');
     },
+    fix: (element: TemplateElement, context: RuleContext) =>
+      insertAttribute(element, context, 'alt=""', 'Mark the image as decorative with alt="" (describe it instead if it conveys content)'),
     message: 'Add an alt attribute that describes the image content or use alt="" for decorative images.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#text-equiv-all'
   },
@@ -24,16 +671,27 @@ export const htmlRules: AccessibilityRule[] = [
     wcagLevel: 'A',
     severity: 'serious',
     category: 'html',
-    check: (element: any) => {
-      const inputTypes = ['text', 'email', 'password', 'number', 'tel', 'url'];
-      if (element.tagName === 'INPUT' && inputTypes.includes(element.type)) {
-        return element.hasAttribute('aria-label') || 
-               element.hasAttribute('aria-labelledby') || 
-               (element.id && document.querySelector(`label[for="${element.id}"]`));
-      }
-      return true;
+    target: 'element',
+    check: (element: TemplateElement, context: RuleContext) => {
+      const contract = contractOf(element, context);
+      const isNativeControl =
+        (element.tagName === 'input' && labelledInputTypes.includes(element.getAttribute('type') || '')) ||
+        element.tagName === 'textarea' ||
+        element.tagName === 'select';
+      if (!isNativeControl && contract?.kind !== 'control') return true;
+
+      // <label for> only labels native controls
+      const id = element.getAttribute('id');
+      return element.hasAttribute('aria-label') ||
+             element.hasAttribute('aria-labelledby') ||
+             hasMatLabel(element) ||
+             (!!contract && hasNameInput(element, contract)) ||
+             labelledByAncestor(element, context) ||
+             (isNativeControl && !!id && (context.template?.elements || []).some(label =>
+               label.tagName === 'label' && label.getAttribute('for') === id
+             ));
     },
-    message: 'Add a <label> element with a "for" attribute matching the input\'s id, or use aria-label or aria-labelledby.',
+    message: 'Add a <label> element with a "for" attribute matching the input\'s id, wrap it in a label component, or use aria-label or aria-labelledby.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic'
   },
   {
@@ -44,17 +702,107 @@ export const htmlRules: AccessibilityRule[] = [
     wcagLevel: 'A',
     severity: 'serious',
     category: 'html',
-    check: (element: any) => {
-      if (element.tagName === 'BUTTON') {
-        return element.textContent?.trim() || 
-               element.hasAttribute('aria-label') || 
-               element.hasAttribute('aria-labelledby');
+    target: 'element',
+    check: (element: TemplateElement) => {
+      if (element.tagName === 'button') {
+        return hasAccessibleName(element);
       }
       return true;
     },
     message: 'Add text content to the button or use aria-label or aria-labelledby attributes.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
   },
+  {
+    id: 'button-type',
+    name: 'Buttons should declare their type',
+    description: 'A button without a type attribute is a submit button, which submits its form unexpectedly when activated.',
+    wcagCriterion: '3.2.2',
+    wcagLevel: 'A',
+    severity: 'minor',
+    category: 'html',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      return element.tagName !== 'button' || element.hasAttribute('type');
+    },
+    // Inside a form the missing type may deliberately mean "submit", so no automatic fix there
+    fix: (element: TemplateElement, context: RuleContext) => hasAncestor(element, 'form')
+      ? undefined
+      : insertAttribute(element, context, 'type="button"', 'Declare the button as type="button"'),
+    message: 'Add type="button" to buttons that do not submit a form, or type="submit" to those that do.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#consistent-behavior-unpredictable-change'
+  },
+  {
+    id: 'link-name',
+    name: 'Links must have accessible names',
+    description: 'Links (including routerLink elements) without text, an aria-label or a labelled image are announced only as "link".',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'html',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      return !isLink(element) || linkHasName(element);
+    },
+    message: 'Add link text, an aria-label, or alt text to the image inside the link that describes its destination.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'link-text',
+    name: 'Link text should describe the destination',
+    description: 'Generic link text such as "click here" or "read more" does not tell users where the link goes when read out of context.',
+    wcagCriterion: '2.4.4',
+    wcagLevel: 'A',
+    severity: 'moderate',
+    category: 'html',
+    target: 'element',
+    check: (element: TemplateElement, context: RuleContext) => {
+      return !isLink(element) || !genericLinkName(element, context);
+    },
+    detail: (element: TemplateElement, context: RuleContext) =>
+      `Link text "${genericLinkName(element, context)}" does not describe its destination.`,
+    message: 'Use link text that makes sense on its own (e.g. "Read more about pricing"), or add an aria-label or aria-labelledby with that context.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-refs'
+  },
+  {
+    id: 'link-as-button',
+    name: 'Links without a destination should be buttons',
+    description: 'An <a> without href or routerLink that handles (click) is not focusable and is announced as a link rather than a button.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'html',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      if (element.tagName !== 'a' || !hasEvent(element, 'click')) return true;
+      return element.hasAttribute('href') || element.hasAttribute('routerLink');
+    },
+    message: 'Use <button type="button"> for actions, or give the link an href or routerLink to navigate to.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'link-new-window',
+    name: 'Links opening a new window should warn users',
+    description: 'A link with target="_blank" opens a new window or tab without notice, which disorients screen reader and keyboard users.',
+    wcagCriterion: '2.4.4',
+    wcagLevel: 'A',
+    severity: 'minor',
+    category: 'html',
+    target: 'element',
+    check: (element: TemplateElement, context: RuleContext) => {
+      if (!isLink(element) || element.getAttribute('target') !== '_blank') return true;
+      // aria-describedby typically points at a shared "opens in a new window" hint
+      if (element.hasAttribute('aria-describedby')) return true;
+      const text = [
+        element.textContent,
+        element.getAttribute('aria-label'),
+        element.getAttribute('title'),
+        ...descendants(element).map(child => child.getAttribute('aria-label') ?? child.getAttribute('alt'))
+      ].filter(Boolean).join(' ');
+      return hasNewWindowWarning(text, localesOf(context));
+    },
+    message: 'Tell users the link opens in a new window, e.g. with visually hidden text "(opens in a new tab)", an aria-label or aria-describedby.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-refs'
+  },
   {
     id: 'heading-hierarchy',
     name: 'Heading levels should not be skipped',
@@ -63,15 +811,116 @@ export const htmlRules: AccessibilityRule[] = [
     wcagLevel: 'AA',
     severity: 'moderate',
     category: 'semantic',
-    check: (_element: any, _context: any) => {
-      // This check requires context of previous headings
-      return true; // Implemented in static analyzer
+    target: 'element',
+    check: (element: TemplateElement, context: RuleContext) => {
+      const level = headingLevel(element);
+      if (!level) return true;
+
+      // Compare with the previous heading in document order
+      const headings = (context.template?.elements || []).filter(candidate => headingLevel(candidate) > 0);
+      const index = headings.indexOf(element);
+      const previousLevel = index > 0 ? headingLevel(headings[index - 1]) : 0;
+      return level <= previousLevel + 1;
     },
     message: 'Use headings in sequential order (h1, h2, h3, etc.) without skipping levels.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic'
   }
 ];
 
+// Document-level rules for an application's index.html and its app shell
+export const documentRules: AccessibilityRule[] = [
+  {
+    id: 'html-lang',
+    name: 'Pages must declare their language',
+    description: 'The html element must have a lang attribute so screen readers use the correct pronunciation.',
+    wcagCriterion: '3.1.1',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'document',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      return element.tagName !== 'html' || !!element.getAttribute('lang')?.trim();
+    },
+    fix: (element: TemplateElement, context: RuleContext) => element.hasAttribute('lang')
+      ? undefined
+      : insertAttribute(element, context, 'lang="en"', 'Declare the page language as lang="en" (adjust to the content language)'),
+    message: 'Add a lang attribute with the primary language of the page, e.g. <html lang="en">.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#meaning-doc-lang-id'
+  },
+  {
+    id: 'document-title',
+    name: 'Documents must have a title',
+    description: 'The <title> of index.html names the browser tab and is the first thing screen readers announce.',
+    wcagCriterion: '2.4.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'document',
+    target: 'document',
+    check: (_root: TemplateElement, context: RuleContext) =>
+      (context.document?.index.elements || []).some(element => element.tagName === 'title' && !!element.textContent.trim()),
+    message: 'Add a descriptive <title> to the <head> of index.html, and set page titles per route with the Title service or route titles.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-title'
+  },
+  {
+    id: 'meta-viewport',
+    name: 'Zooming must not be disabled',
+    description: 'A viewport that disables or limits zooming prevents users with low vision from enlarging the page.',
+    wcagCriterion: '1.4.4',
+    wcagLevel: 'AA',
+    severity: 'serious',
+    category: 'document',
+    target: 'element',
+    check: (element: TemplateElement) => viewportProblems(element).length === 0,
+    detail: (element: TemplateElement) => `The viewport sets ${viewportProblems(element).join(' and ')}.`,
+    message: 'Remove user-scalable=no and any maximum-scale below 2 from <meta name="viewport">.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#visual-audio-contrast-scale'
+  },
+  {
+    id: 'skip-link',
+    name: 'Pages should provide a skip link',
+    description: 'Keyboard users need a way to bypass the navigation repeated on every page.',
+    wcagCriterion: '2.4.1',
+    wcagLevel: 'A',
+    severity: 'moderate',
+    category: 'document',
+    target: 'document',
+    check: (_root: TemplateElement, context: RuleContext) => hasOpaqueShell(context) || hasSkipLink(context),
+    detail: (_root: TemplateElement, context: RuleContext) => unseenComponentsNote(context),
+    message: 'Add a "Skip to main content" link as the first focusable element of the app shell, targeting the <main> element.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-skip'
+  },
+  {
+    id: 'landmark-main',
+    name: 'Documents must have a main landmark',
+    description: 'A <main> landmark lets screen reader users jump straight to the page content.',
+    wcagCriterion: '1.3.1',
+    wcagLevel: 'A',
+    severity: 'moderate',
+    category: 'document',
+    target: 'document',
+    check: (_root: TemplateElement, context: RuleContext) =>
+      hasOpaqueShell(context) || documentElements(context).some(element => effectiveRole(element) === 'main'),
+    detail: (_root: TemplateElement, context: RuleContext) => unseenComponentsNote(context),
+    message: 'Wrap the routed content of the app shell in <main>, e.g. <main><router-outlet></router-outlet></main>.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic'
+  },
+  {
+    id: 'landmark-unique',
+    name: 'Repeated landmarks must have distinct labels',
+    description: 'When a landmark role occurs more than once, screen reader users can only tell the regions apart by their labels.',
+    wcagCriterion: '1.3.1',
+    wcagLevel: 'A',
+    severity: 'moderate',
+    category: 'document',
+    target: 'document',
+    check: (_root: TemplateElement, context: RuleContext) => unlabelledDuplicateLandmarks(context).length === 0,
+    detail: (_root: TemplateElement, context: RuleContext) =>
+      `Unlabelled repeated landmarks: ${unlabelledDuplicateLandmarks(context).join('; ')}.`,
+    message: 'Give each repeated landmark an aria-label or aria-labelledby, e.g. <nav aria-label="Main"> and <nav aria-label="Footer">.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic'
+  }
+];
+
 // ARIA accessibility rules
 export const ariaRules: AccessibilityRule[] = [
   {
@@ -82,14 +931,13 @@ export const ariaRules: AccessibilityRule[] = [
     wcagLevel: 'A',
     severity: 'serious',
     category: 'aria',
-    check: (element: any) => {
+    target: 'element',
+    check: (element: TemplateElement) => {
       const role = element.getAttribute('role');
       if (role) {
         const rolesRequiringNames = ['button', 'link', 'menuitem', 'option', 'tab', 'treeitem'];
         if (rolesRequiringNames.includes(role)) {
-          return element.textContent?.trim() || 
-                 element.hasAttribute('aria-label') || 
-                 element.hasAttribute('aria-labelledby');
+          return hasAccessibleName(element);
         }
       }
       return true;
@@ -97,6 +945,23 @@ export const ariaRules: AccessibilityRule[] = [
     message: 'Elements with interactive ARIA roles must have accessible names.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
   },
+  {
+    id: 'click-role',
+    name: 'Clickable elements must expose a role',
+    description: 'A non-interactive element with a click handler (in the template or via host listeners) is not announced as a control.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'aria',
+    target: ['element', 'host'],
+    check: (element: TemplateElement, context: RuleContext) => {
+      if (!handlesClickWithoutSemantics(element, context)) return true;
+      const role = element.getAttribute('role');
+      return !!role && role !== 'presentation' && role !== 'none';
+    },
+    message: 'Use a <button> or <a> instead, or add a role such as role="button" to the element that handles (click).',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
   {
     id: 'aria-expanded',
     name: 'Expandable elements should have aria-expanded',
@@ -105,7 +970,8 @@ export const ariaRules: AccessibilityRule[] = [
     wcagLevel: 'A',
     severity: 'moderate',
     category: 'aria',
-    check: (element: any) => {
+    target: 'element',
+    check: (element: TemplateElement) => {
       const role = element.getAttribute('role');
       if (role === 'button' && element.getAttribute('aria-controls')) {
         return element.hasAttribute('aria-expanded');
@@ -114,6 +980,168 @@ export const ariaRules: AccessibilityRule[] = [
     },
     message: 'Add aria-expanded attribute to indicate the expanded/collapsed state.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'icon-aria-hidden',
+    name: 'Decorative icons should be hidden from screen readers',
+    description: 'Icon font elements announce meaningless glyphs or ligature text unless they are hidden or labelled.',
+    wcagCriterion: '1.1.1',
+    wcagLevel: 'A',
+    severity: 'minor',
+    category: 'aria',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      if (!isIconElement(element)) return true;
+      return element.hasAttribute('aria-hidden') ||
+        element.hasAttribute('aria-label') ||
+        element.hasAttribute('aria-labelledby') ||
+        element.hasAttribute('role');
+    },
+    fix: (element: TemplateElement, context: RuleContext) =>
+      insertAttribute(element, context, 'aria-hidden="true"', 'Hide the decorative icon with aria-hidden="true"'),
+    message: 'Add aria-hidden="true" to decorative icons, or role="img" with an aria-label to meaningful ones.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#text-equiv-all'
+  },
+  {
+    id: 'aria-valid-role',
+    name: 'Roles must be valid ARIA roles',
+    description: 'A role value that is misspelled or abstract is ignored by assistive technology.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'critical',
+    category: 'aria',
+    target: ['element', 'host'],
+    check: (element: TemplateElement) => invalidRoles(element).length === 0,
+    detail: (element: TemplateElement) => invalidRoles(element).map(role => {
+      const suggestion = suggestRole(role);
+      if (isAbstractRole(role)) return `"${role}" is an abstract role and must not be used in content.`;
+      return `"${role}" is not an ARIA role${suggestion ? `; did you mean "${suggestion}"?` : '.'}`;
+    }).join(' '),
+    message: 'Use a role defined in WAI-ARIA 1.2, such as button, tab or dialog.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'aria-valid-attr',
+    name: 'ARIA attributes must exist',
+    description: 'Misspelled or invented aria-* attributes have no effect.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'critical',
+    category: 'aria',
+    target: ['element', 'host'],
+    check: (element: TemplateElement) => unknownAriaAttributes(element).length === 0,
+    detail: (element: TemplateElement) => unknownAriaAttributes(element).map(name => {
+      const suggestion = suggestAriaAttribute(name);
+      return `${name} is not an ARIA attribute${suggestion ? `; did you mean ${suggestion}?` : '.'}`;
+    }).join(' '),
+    message: 'Use the ARIA 1.2 state or property name, e.g. aria-label or aria-describedby.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'aria-allowed-attr',
+    name: 'ARIA attributes must be supported by the role',
+    description: 'States and properties the element\'s role does not support are ignored or misreported.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'aria',
+    target: ['element', 'host'],
+    check: (element: TemplateElement) => unsupportedAriaAttributes(element).length === 0,
+    detail: (element: TemplateElement) =>
+      `Role "${effectiveRole(element)}" does not support ${unsupportedAriaAttributes(element).join(', ')}.`,
+    message: 'Remove the attribute or give the element a role that supports it (e.g. aria-pressed on a button, aria-selected on a tab).',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'aria-required-attr',
+    name: 'Roles must have their required states and properties',
+    description: 'Widgets such as checkboxes and sliders cannot report their state without the attributes their role requires.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'critical',
+    category: 'aria',
+    target: ['element', 'host'],
+    check: (element: TemplateElement) => missingRequiredAttributes(element).length === 0,
+    detail: (element: TemplateElement) =>
+      `role="${explicitRole(element)}" requires ${missingRequiredAttributes(element).join(' and ')}.`,
+    message: 'Add the required states and properties, binding those that change to component state (e.g. [attr.aria-checked]="checked").',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'aria-required-children',
+    name: 'Roles must own their required child roles',
+    description: 'Composite roles such as tablist, menu and listbox must contain the items they manage.',
+    wcagCriterion: '1.3.1',
+    wcagLevel: 'A',
+    severity: 'critical',
+    category: 'aria',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      const role = explicitRole(element);
+      const required = role ? requiredOwnedRoles(role) : [];
+      if (required.length === 0 || element.hasAttribute('aria-owns') || literalAttribute(element, 'aria-busy') === 'true') return true;
+      const owned = ownedRoles(element);
+      return owned.includes('unknown') || owned.some(owner => required.includes(owner));
+    },
+    detail: (element: TemplateElement) =>
+      `role="${explicitRole(element)}" must own an element with role ${requiredOwnedRoles(explicitRole(element)!).join(', ')}.`,
+    message: 'Give the child items their roles (e.g. role="tab" inside role="tablist"), or reference them with aria-owns.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic'
+  },
+  {
+    id: 'aria-required-parent',
+    name: 'Roles must be inside their required parent roles',
+    description: 'Items such as tab, option and menuitem are only meaningful inside the container role that manages them.',
+    wcagCriterion: '1.3.1',
+    wcagLevel: 'A',
+    severity: 'critical',
+    category: 'aria',
+    target: 'element',
+    check: (element: TemplateElement, context: RuleContext) => {
+      const role = explicitRole(element);
+      const required = role ? requiredContextRoles(role) : [];
+      if (required.length === 0) return true;
+      const parent = contextRole(element, context);
+      return !parent || parent === 'unknown' || required.includes(parent);
+    },
+    detail: (element: TemplateElement, context: RuleContext) =>
+      `role="${explicitRole(element)}" must be inside role ${requiredContextRoles(explicitRole(element)!).join(' or ')}, but its parent role is ${contextRole(element, context)}.`,
+    message: 'Wrap the item in its container role (e.g. role="tab" inside role="tablist"), or use the matching native elements.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic'
+  },
+  {
+    id: 'aria-hidden-focus',
+    name: 'aria-hidden elements must not be focusable',
+    description: 'Keyboard users can tab to a focusable element that aria-hidden="true" removes from screen readers, which then announce nothing.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'aria',
+    target: 'element',
+    check: (element: TemplateElement) => !hiddenFocusable(element),
+    detail: (element: TemplateElement) => {
+      const focusable = hiddenFocusable(element);
+      return focusable === element
+        ? `<${element.tagName}> is focusable.`
+        : `It contains focusable <${focusable?.tagName}> (line ${focusable?.line}).`;
+    },
+    message: 'Remove aria-hidden="true", or take the content out of the tab order with tabindex="-1", disabled or inert.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'aria-valid-idref',
+    name: 'ARIA ID references must exist',
+    description: 'aria-labelledby, aria-describedby, aria-controls and similar attributes only work when the referenced IDs exist.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'aria',
+    target: 'element',
+    check: (element: TemplateElement, context: RuleContext) => missingIdReferences(element, context).length === 0,
+    detail: (element: TemplateElement, context: RuleContext) =>
+      `No element in this template has the ID referenced by ${missingIdReferences(element, context).join(', ')}.`,
+    message: 'Reference an existing id, or add the id to the element that provides the label, description or controlled content.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
   }
 ];
 
@@ -121,17 +1149,18 @@ export const ariaRules: AccessibilityRule[] = [
 export const angularRules: AccessibilityRule[] = [
   {
     id: 'ngfor-trackby',
-    name: '*ngFor should use trackBy for accessibility',
-    description: 'Using trackBy in *ngFor helps screen readers maintain context when list items change.',
+    name: 'Loops should track their items',
+    description: 'Using trackBy in *ngFor (or track in @for) helps screen readers maintain context when list items change.',
     wcagCriterion: '2.4.3',
     wcagLevel: 'AA',
     severity: 'minor',
     category: 'angular',
-    check: (_element: any) => {
-      // This is checked in the static analyzer
-      return true;
+    target: 'loop',
+    check: (loop: TemplateLoop) => {
+      return !!loop.trackBy;
     },
-    message: 'Add trackBy function to *ngFor directive to improve performance and accessibility.',
+    fix: trackLoopFix,
+    message: 'Add a trackBy function to *ngFor (or a track expression to @for) to improve performance and accessibility.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-focus-order'
   },
   {
@@ -142,12 +1171,177 @@ export const angularRules: AccessibilityRule[] = [
     wcagLevel: 'AA',
     severity: 'moderate',
     category: 'angular',
+    target: 'runtime',
     check: (_element: any) => {
       // This would be checked in dynamic analysis
       return true;
     },
     message: 'Ensure focus is managed when dynamically showing/hiding content in Angular components.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-focus-order'
+  },
+  {
+    id: 'route-title',
+    name: 'Routed pages must have a title',
+    description: 'Routes that render a component need a title so each page of the application has a descriptive document title.',
+    wcagCriterion: '2.4.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'angular',
+    target: 'route',
+    check: (route: AngularRoute, context: RuleContext) => routeHasTitle(route, context),
+    detail: (route: AngularRoute) => route.path !== undefined ? `The route '${route.path}' has no title.` : undefined,
+    message: 'Add a title to the route (or a parent route), or provide a custom TitleStrategy that sets the document title.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-title'
+  },
+  {
+    id: 'route-title-unique',
+    name: 'Sibling routes should have distinct titles',
+    description: 'Pages that share a title cannot be told apart in browser tabs, history or by screen reader users.',
+    wcagCriterion: '2.4.2',
+    wcagLevel: 'A',
+    severity: 'moderate',
+    category: 'angular',
+    target: 'route',
+    check: (route: AngularRoute) => !duplicateTitleRoute(route),
+    detail: (route: AngularRoute) => {
+      const duplicate = duplicateTitleRoute(route);
+      return duplicate ? `The route on line ${duplicate.line} already uses the title '${route.title}'.` : undefined;
+    },
+    message: 'Give each route a title that describes its page.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-title'
+  }
+];
+
+// Angular Material and CDK rules
+export const materialRules: AccessibilityRule[] = [
+  {
+    id: 'mat-icon-only-button',
+    name: 'Icon-only buttons must have accessible names',
+    description: 'A button or link whose only content is a <mat-icon> has no accessible name, because the icon\'s ligature text is hidden from screen readers.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'material',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      const parent = element.parent;
+      // Material icon buttons and tooltips have their own, more specific rules
+      if (element.tagName !== 'mat-icon' || !parent || !isInteractive(parent) ||
+          isMaterialIconButton(parent) || parent.hasAttribute('matTooltip')) {
+        return true;
+      }
+      return hasMaterialName(parent);
+    },
+    message: 'Add an aria-label to the button or link that contains only a <mat-icon>.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'mat-icon-decorative',
+    name: 'Decorative mat-icons should be explicitly hidden',
+    description: 'A <mat-icon> must either be labelled or state that it is decorative with aria-hidden="true".',
+    wcagCriterion: '1.1.1',
+    wcagLevel: 'A',
+    severity: 'minor',
+    category: 'material',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      if (element.tagName !== 'mat-icon') return true;
+      return element.hasAttribute('aria-hidden') ||
+        element.hasAttribute('aria-label') ||
+        element.hasAttribute('aria-labelledby');
+    },
+    fix: (element: TemplateElement, context: RuleContext) =>
+      insertAttribute(element, context, 'aria-hidden="true"', 'Hide the decorative icon with aria-hidden="true"'),
+    message: 'Add aria-hidden="true" to decorative icons, or an aria-label (with aria-hidden="false") to icons that convey meaning.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#text-equiv-all'
+  },
+  {
+    id: 'mat-form-field-label',
+    name: 'Form fields must have a mat-label',
+    description: 'A <mat-form-field> without a <mat-label> leaves its control unlabelled; placeholders are not a substitute.',
+    wcagCriterion: '1.3.1',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'material',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      if (element.tagName !== 'mat-form-field' || hasMatLabel(element)) return true;
+      // A control labelled directly is fine as well
+      return descendants(element).some(child =>
+        child.hasAttribute('aria-label') || child.hasAttribute('aria-labelledby')
+      );
+    },
+    message: 'Add a <mat-label> inside the <mat-form-field>, or label its control with aria-label or aria-labelledby.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic'
+  },
+  {
+    id: 'mat-icon-button-name',
+    name: 'Material icon buttons must have accessible names',
+    description: 'mat-icon-button, mat-mini-fab and mat-fab buttons usually contain only an icon and need an explicit label.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'material',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      if (!isMaterialIconButton(element) || element.hasAttribute('matTooltip')) return true;
+      return hasMaterialName(element);
+    },
+    message: 'Add an aria-label to the icon button describing its action, e.g. aria-label="Delete item".',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'mat-tooltip-label',
+    name: 'Tooltips must not be the only label',
+    description: 'matTooltip is exposed as a description (aria-describedby) and is not shown on touch devices, so it does not name the control.',
+    wcagCriterion: '4.1.2',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'material',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      if (!element.hasAttribute('matTooltip') || !(isInteractive(element) || isMaterialIconButton(element))) return true;
+      return hasMaterialName(element);
+    },
+    message: 'Add an aria-label (it may repeat the tooltip text) or visible text to controls that use matTooltip.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#ensure-compat-rsv'
+  },
+  {
+    id: 'mat-dialog-focus-initial',
+    name: 'Dialogs should set their initial focus',
+    description: 'Without cdkFocusInitial, an opened dialog focuses its first tabbable element, which is often a close button rather than the content.',
+    wcagCriterion: '2.4.3',
+    wcagLevel: 'A',
+    severity: 'moderate',
+    category: 'material',
+    target: 'element',
+    check: (element: TemplateElement, context: RuleContext) => {
+      const isDialogContent = element.tagName === 'mat-dialog-content' ||
+        element.hasAttribute('mat-dialog-content') ||
+        element.hasAttribute('matDialogContent');
+      if (!isDialogContent) return true;
+      return (context.template?.elements || []).some(candidate => candidate.hasAttribute('cdkFocusInitial'));
+    },
+    message: 'Mark the element that should receive focus when the dialog opens with cdkFocusInitial (or set autoFocus in the dialog config).',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-focus-order'
+  },
+  {
+    id: 'mat-table-header-row',
+    name: 'Material tables must have header rows',
+    description: 'A mat-table without a header row exposes its cells without column headers.',
+    wcagCriterion: '1.3.1',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'material',
+    target: 'element',
+    check: (element: TemplateElement) => {
+      if (element.tagName !== 'mat-table' && !element.hasAttribute('mat-table')) return true;
+      return descendants(element).some(child =>
+        child.tagName === 'mat-header-row' || child.hasAttribute('mat-header-row')
+      );
+    },
+    message: 'Add a header row (<tr mat-header-row *matHeaderRowDef="displayedColumns">) with a header cell for every column.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#content-structure-separation-programmatic'
   }
 ];
 
@@ -161,16 +1355,50 @@ export const keyboardRules: AccessibilityRule[] = [
     wcagLevel: 'A',
     severity: 'serious',
     category: 'keyboard',
-    check: (element: any) => {
-      const interactiveElements = ['A', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA'];
+    target: 'element',
+    check: (element: TemplateElement) => {
+      const interactiveElements = ['a', 'button', 'input', 'select', 'textarea'];
       if (interactiveElements.includes(element.tagName)) {
-        return element.tabIndex !== -1 || element.hasAttribute('tabindex');
+        return element.getAttribute('tabindex')?.trim() !== '-1';
       }
       return true;
     },
     message: 'Ensure interactive elements are keyboard accessible with proper tabindex values.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#keyboard-operation-keyboard-operable'
   },
+  {
+    id: 'click-keyboard',
+    name: 'Click handlers must have keyboard equivalents',
+    description: 'A non-interactive element with a click handler (in the template or via host listeners) must be focusable and operable with the keyboard.',
+    wcagCriterion: '2.1.1',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'keyboard',
+    target: ['element', 'host'],
+    check: (element: TemplateElement, context: RuleContext) => {
+      return !handlesClickWithoutSemantics(element, context) || missingKeyboardSupport(element).length === 0;
+    },
+    detail: (element: TemplateElement) =>
+      `<${element.tagName}> handles (click) but has no ${missingKeyboardSupport(element).join(' and no ')}.`,
+    message: 'Use a <button> instead, or add tabindex="0" and (keydown.enter)/(keydown.space) handlers that trigger the same action.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#keyboard-operation-keyboard-operable'
+  },
+  {
+    id: 'mouse-events-keyboard',
+    name: 'Mouse hover handlers must have focus equivalents',
+    description: 'Content revealed or changed on (mouseover)/(mouseout) must also react to (focus)/(blur) for keyboard users.',
+    wcagCriterion: '2.1.1',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'keyboard',
+    target: ['element', 'host'],
+    check: (element: TemplateElement) => {
+      return element.getAttribute('aria-hidden') === 'true' || missingFocusEquivalents(element).length === 0;
+    },
+    detail: (element: TemplateElement) => `<${element.tagName}> has ${missingFocusEquivalents(element).join(' and ')}.`,
+    message: 'Pair (mouseover) with (focus) and (mouseout) with (blur) so keyboard users get the same behaviour.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#keyboard-operation-keyboard-operable'
+  },
   {
     id: 'focus-visible',
     name: 'Focus indicators must be visible',
@@ -179,12 +1407,85 @@ export const keyboardRules: AccessibilityRule[] = [
     wcagLevel: 'AA',
     severity: 'serious',
     category: 'keyboard',
+    target: 'runtime',
     check: (_element: any) => {
-      // This is checked in CSS analysis and dynamic analysis
+      // Checked by the keyboard audit of dynamic analysis; stylesheets are covered by outline-none-focus
       return true;
     },
     message: 'Provide visible focus styles using :focus or :focus-visible pseudo-classes.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-focus-visible'
+  },
+  {
+    id: 'keyboard-unreachable',
+    name: 'Interactive elements must be reachable with Tab',
+    description: 'Every visible, enabled control must be reachable by keyboard, either with Tab or with the arrow keys of its widget.',
+    wcagCriterion: '2.1.1',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'keyboard',
+    target: 'runtime',
+    check: (_element: any) => {
+      // Checked by the keyboard audit of dynamic analysis
+      return true;
+    },
+    message: 'Use a native control, or add tabindex="0" and keyboard handlers to custom ones; do not remove controls from the tab order with tabindex="-1".',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#keyboard-operation-keyboard-operable'
+  },
+  {
+    id: 'keyboard-trap',
+    name: 'Focus must not be trapped',
+    description: 'Keyboard users must be able to move focus away from every element with Tab.',
+    wcagCriterion: '2.1.2',
+    wcagLevel: 'A',
+    severity: 'critical',
+    category: 'keyboard',
+    target: 'runtime',
+    check: (_element: any) => {
+      // Checked by the keyboard audit of dynamic analysis
+      return true;
+    },
+    message: 'Let Tab move on, or confine focus only inside modal dialogs (aria-modal="true") that Escape closes.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#keyboard-operation-trapping'
+  },
+  {
+    id: 'focus-hidden-element',
+    name: 'Focused elements must be visible',
+    description: 'Focus moving to invisible or offscreen elements makes the focus order impossible to follow.',
+    wcagCriterion: '2.4.3',
+    wcagLevel: 'A',
+    severity: 'serious',
+    category: 'keyboard',
+    target: 'runtime',
+    check: (_element: any) => {
+      // Checked by the keyboard audit of dynamic analysis
+      return true;
+    },
+    message: 'Remove hidden content from the tab order (hidden, inert or tabindex="-1"), or show the element when it receives focus.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-focus-order'
+  },
+  {
+    id: 'outline-none-focus',
+    name: 'Do not remove focus indicators without replacement',
+    description: 'Removing focus indicators without providing alternative focus styles makes it difficult for keyboard users to navigate.',
+    wcagCriterion: '2.4.7',
+    wcagLevel: 'AA',
+    severity: 'serious',
+    category: 'keyboard',
+    target: 'stylesheet',
+    check: (rule: StyleRule, context: RuleContext) => {
+      // Removing a container's own outline while a descendant has focus hides no indicator
+      if (!removesOutline(rule) || rule.selector.includes(':focus-within')) return true;
+      // A :focus/:focus-visible rule for the same selector (this one included) must draw a replacement
+      return focusRulesFor(rule, context).some(providesFocusIndicator);
+    },
+    detail: (rule: StyleRule, context: RuleContext) => {
+      const focusRules = focusRulesFor(rule, context);
+      return focusRules.length === 0
+        ? `"${rule.selector}" removes the outline and has no :focus or :focus-visible rule.`
+        : `"${rule.selector}" removes the outline and its focus rules (line ${focusRules.map(other => other.line).join(', ')}) set no box-shadow, border, outline or outline-offset.`;
+    },
+    message: 'If you remove the default outline, provide a visible replacement (box-shadow, border, outline-offset or a restored outline) in a :focus or :focus-visible rule for the same selector.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#navigation-mechanisms-focus-visible'
   }
 ];
 
@@ -198,13 +1499,41 @@ export const colorRules: AccessibilityRule[] = [
     wcagLevel: 'AA',
     severity: 'serious',
     category: 'color',
-    check: (_element: any) => {
-      // This requires color analysis tools
-      return true;
+    target: 'declaration',
+    check: (declaration: StyleDeclaration, context: RuleContext) => {
+      const contrast = colorContrast(declaration, context);
+      return !contrast || contrast.ratio >= (contrast.largeText ? 3 : 4.5);
+    },
+    detail: (declaration: StyleDeclaration, context: RuleContext) => {
+      const contrast = colorContrast(declaration, context);
+      return describeContrast(contrast, contrast?.largeText ? 3 : 4.5);
     },
-    message: 'Ensure text has a contrast ratio of at least 4.5:1 against its background color.',
+    message: 'Ensure text has a contrast ratio of at least 4.5:1 (3:1 for large text) against its background color.',
     helpUrl: 'https://www.w3.org/TR/WCAG20/#visual-audio-contrast-contrast'
   },
+  {
+    id: 'color-contrast-enhanced',
+    name: 'Text should have enhanced color contrast',
+    description: 'Text should have a contrast ratio of at least 7:1 against its background (4.5:1 for large text).',
+    wcagCriterion: '1.4.6',
+    wcagLevel: 'AAA',
+    severity: 'minor',
+    category: 'color',
+    target: 'declaration',
+    check: (declaration: StyleDeclaration, context: RuleContext) => {
+      // Pairs below the AA minimum are already reported by color-contrast
+      const contrast = colorContrast(declaration, context);
+      return !contrast ||
+        contrast.ratio < (contrast.largeText ? 3 : 4.5) ||
+        contrast.ratio >= (contrast.largeText ? 4.5 : 7);
+    },
+    detail: (declaration: StyleDeclaration, context: RuleContext) => {
+      const contrast = colorContrast(declaration, context);
+      return describeContrast(contrast, contrast?.largeText ? 4.5 : 7);
+    },
+    message: 'Increase the contrast to at least 7:1 (4.5:1 for large text) to meet WCAG AAA.',
+    helpUrl: 'https://www.w3.org/TR/WCAG20/#visual-audio-contrast7'
+  },
   {
     id: 'color-only-info',
     name: 'Information should not be conveyed by color alone',
@@ -213,6 +1542,7 @@ export const colorRules: AccessibilityRule[] = [
     wcagLevel: 'A',
     severity: 'moderate',
     category: 'color',
+    target: 'runtime',
     check: (_element: any) => {
       // This requires semantic analysis
       return true;
@@ -225,8 +1555,10 @@ export const colorRules: AccessibilityRule[] = [
 // Export all rules
 export const allRules: AccessibilityRule[] = [
   ...htmlRules,
+  ...documentRules,
   ...ariaRules,
   ...angularRules,
+  ...materialRules,
   ...keyboardRules,
   ...colorRules
 ];
@@ -243,13 +1575,13 @@ export function getRuleById(id: string): AccessibilityRule | undefined {
 }
 
 // Helper function to get rules by category
-export function getRulesByCategory(category: string): AccessibilityRule[] {
-  return allRules.filter(rule => rule.category === category);
+export function getRulesByCategory(category: RuleCategory, rules: AccessibilityRule[] = allRules): AccessibilityRule[] {
+  return rules.filter(rule => rule.category === category);
 }
 
 // Helper function to get rules by WCAG level
-export function getRulesByWcagLevel(level: 'A' | 'AA' | 'AAA'): AccessibilityRule[] {
-  return allRules.filter(rule => rule.wcagLevel === level);
+export function getRulesByWcagLevel(level: 'A' | 'AA' | 'AAA', rules: AccessibilityRule[] = allRules): AccessibilityRule[] {
+  return rules.filter(rule => rule.wcagLevel === level);
 }
 
 // Helper function to get rules by severity
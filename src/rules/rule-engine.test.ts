@@ -0,0 +1,41 @@
+import { describe, expect, it } from '@jest/globals';
+import { RuleEngine } from './rule-engine.js';
+import { colorRules } from './index.js';
+import { StylesheetParser } from '../parsers/stylesheet-parser.js';
+import type { A11yRobotConfig, RuleContext } from '../types/index.js';
+
+const stylesheetParser = new StylesheetParser();
+
+// 4.5:1 passes AA but not the AAA minimum of 7:1
+const context: RuleContext = {
+  file: 'src/app/app.component.scss',
+  stylesheet: stylesheetParser.parse('.hint { color: #767676; background-color: #fff; }', 'src/app/app.component.scss')
+};
+
+const ruleIds = (engine: RuleEngine) => engine.run(context).map(issue => issue.rule);
+
+describe('RuleEngine', () => {
+  it('runs AAA rules only when AAA is the target level', () => {
+    expect(ruleIds(new RuleEngine(colorRules))).toEqual([]);
+    expect(ruleIds(new RuleEngine(colorRules, { wcagLevel: 'AA' }))).toEqual([]);
+    expect(ruleIds(new RuleEngine(colorRules, { wcagLevel: 'AAA' }))).toEqual(['color-contrast-enhanced']);
+    expect(ruleIds(RuleEngine.fromSelection({ ruleCategories: ['color'] }))).toEqual([]);
+    expect(ruleIds(RuleEngine.fromSelection({ ruleCategories: ['color'], wcagLevel: 'AAA' }))).toEqual(['color-contrast-enhanced']);
+  });
+
+  it('takes the target level from the configuration and its overrides', () => {
+    const config: A11yRobotConfig = { level: 'AAA', overrides: [{ files: 'src/legacy/**', level: 'AA' }] };
+
+    expect(ruleIds(new RuleEngine(colorRules, { config }))).toEqual(['color-contrast-enhanced']);
+    expect(ruleIds(new RuleEngine(colorRules, { config: { ...config, level: 'AA' } }))).toEqual([]);
+    expect(new RuleEngine(colorRules, { config }).rulesFor('src/legacy/old.component.scss').map(rule => rule.id)).not.toContain('color-contrast-enhanced');
+  });
+
+  it('applies rules re-levelled by the configuration at their new level', () => {
+    const config: A11yRobotConfig = { rules: { 'color-contrast-enhanced': { wcagLevel: 'AA' } } };
+
+    expect(new RuleEngine(colorRules, { config }).run(context)).toEqual([
+      expect.objectContaining({ rule: 'color-contrast-enhanced', wcagLevel: 'AA' })
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import { allRules, getRulesByCategory, getRulesByWcagLevel } from './index.js';
+import { resolveRuleSettings, resolveTargetLevel } from '../services/config-loader.js';
+import type {
+  A11yRobotConfig,
+  AccessibilityIssue,
+  AccessibilityRule,
+  AngularRoute,
+  IssueFix,
+  RuleCategory,
+  RuleContext,
+  RuleTarget,
+  StyleDeclaration,
+  StyleRule,
+  TemplateElement,
+  TemplateLoop,
+} from '../types/index.js';
+
+type RuleNode = TemplateElement | TemplateLoop | AngularRoute | StyleRule | StyleDeclaration;
+
+export interface RuleSelection {
+  ruleCategories?: RuleCategory[];
+  wcagLevel?: 'A' | 'AA' | 'AAA';
+}
+
+export interface RuleEngineOptions {
+  wcagLevel?: 'A' | 'AA' | 'AAA';
+  config?: A11yRobotConfig;
+}
+
+const wcagLevels: Array<'A' | 'AA' | 'AAA'> = ['A', 'AA', 'AAA'];
+
+/**
+ * Runs registered accessibility rules against parsed templates and stylesheets.
+ */
+export class RuleEngine {
+  constructor(
+    private readonly rules: AccessibilityRule[] = allRules,
+    private readonly options: RuleEngineOptions = {}
+  ) {}
+
+  /**
+   * Builds an engine for the requested categories and target conformance level
+   * (a level includes the rules of every lower level). An explicit `wcagLevel`
+   * takes precedence over the level from the project configuration.
+   */
+  static fromSelection(selection: RuleSelection = {}, config?: A11yRobotConfig): RuleEngine {
+    let rules = allRules;
+
+    if (selection.ruleCategories && selection.ruleCategories.length > 0) {
+      const inCategories = new Set(selection.ruleCategories.flatMap(category => getRulesByCategory(category)));
+      rules = rules.filter(rule => inCategories.has(rule));
+    }
+
+    return new RuleEngine(rules, {
+      ...(selection.wcagLevel ? { wcagLevel: selection.wcagLevel } : {}),
+      ...(config ? { config } : {})
+    });
+  }
+
+  getRules(): AccessibilityRule[] {
+    return this.rules;
+  }
+
+  /**
+   * The rules that apply to `file` after the project configuration (including matching
+   * per-glob overrides) enabled, disabled or re-levelled them, up to the target level.
+   */
+  rulesFor(file?: string): AccessibilityRule[] {
+    let rules = this.rules;
+    const config = this.options.config;
+
+    if (config) {
+      const settings = resolveRuleSettings(config, file);
+      rules = rules
+        .filter(rule => settings[rule.id]?.enabled !== false)
+        .map(rule => {
+          const setting = settings[rule.id];
+          if (!setting?.severity && !setting?.wcagLevel) return rule;
+          return {
+            ...rule,
+            ...(setting.severity ? { severity: setting.severity } : {}),
+            ...(setting.wcagLevel ? { wcagLevel: setting.wcagLevel } : {})
+          };
+        });
+    }
+
+    // AAA is opt-in: without a target level the rules up to AA apply
+    const targetLevel = this.options.wcagLevel ?? (config ? resolveTargetLevel(config, file) : undefined) ?? 'AA';
+    const levels = wcagLevels.slice(0, wcagLevels.indexOf(targetLevel) + 1);
+    const atLevel = new Set(levels.flatMap(level => getRulesByWcagLevel(level, rules)));
+    return rules.filter(rule => atLevel.has(rule));
+  }
+
+  /**
+   * Checks every element and loop of `context.template`, the component host in
+   * `context.host`, the application document in `context.document`, the routes in
+   * `context.routing` and every style rule of `context.stylesheet` against the rules
+   * targeting them.
+   */
+  run(ruleContext: RuleContext, logCollector?: string[]): AccessibilityIssue[] {
+    const issues: AccessibilityIssue[] = [];
+    const config = this.options.config;
+    const context = config ? { ...ruleContext, config } : ruleContext;
+
+    for (const rule of this.rulesFor(context.file)) {
+      const nodes = this.nodesFor(rule, context);
+      let index = 0;
+
+      for (const node of nodes) {
+        let passed: boolean;
+        try {
+          passed = rule.check(node, context);
+        } catch (error) {
+          if (logCollector) logCollector.push(`Rule ${rule.id} failed on ${context.file}:${node.line}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+
+        if (!passed) {
+          if (logCollector) logCollector.push(`${rule.id} violation in ${context.file}:${node.line}:${node.column}`);
+          issues.push(this.createIssue(rule, node, context, index++, this.createFix(rule, node, context, logCollector)));
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private nodesFor(rule: AccessibilityRule, context: RuleContext): RuleNode[] {
+    const targets = Array.isArray(rule.target) ? rule.target : [rule.target];
+    return targets.flatMap(target => this.nodesForTarget(target, context));
+  }
+
+  private nodesForTarget(target: RuleTarget, context: RuleContext): RuleNode[] {
+    switch (target) {
+      case 'element':
+        return context.template?.elements || [];
+      case 'host':
+        return context.host ? [context.host] : [];
+      case 'document': {
+        // Document rules report on the <html> element of index.html
+        const elements = context.document?.index.elements || [];
+        const root = elements.find(element => element.tagName === 'html') ?? elements[0];
+        return root ? [root] : [];
+      }
+      case 'loop':
+        return context.template?.loops || [];
+      case 'route':
+        return context.routing?.routes || [];
+      case 'stylesheet':
+        return context.stylesheet?.rules || [];
+      case 'declaration':
+        // Rules of one selector list share their declarations
+        return [...new Set((context.stylesheet?.rules || []).flatMap(rule => rule.declarations))];
+      default:
+        return [];
+    }
+  }
+
+  private createFix(rule: AccessibilityRule, node: RuleNode, context: RuleContext, logCollector?: string[]): IssueFix | undefined {
+    try {
+      return rule.fix?.(node, context);
+    } catch (error) {
+      if (logCollector) logCollector.push(`Fix for ${rule.id} failed on ${context.file}:${node.line}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  private createIssue(
+    rule: AccessibilityRule,
+    node: RuleNode,
+    context: RuleContext,
+    index: number,
+    fix?: IssueFix
+  ): AccessibilityIssue {
+    const selector = 'tagName' in node ? node.tagName : 'selector' in node ? node.selector : undefined;
+    const detail = rule.detail?.(node, context);
+
+    return {
+      id: `${rule.id}-${index}`,
+      rule: rule.id,
+      severity: rule.severity,
+      wcagLevel: rule.wcagLevel,
+      wcagCriterion: rule.wcagCriterion,
+      description: rule.description,
+      helpText: detail ? `${detail} ${rule.message}` : rule.message,
+      wcagUrl: rule.helpUrl,
+      element: node.source,
+      ...(selector ? { selector } : {}),
+      file: context.file,
+      line: node.line,
+      column: node.column,
+      ...(fix ? { fix } : {}),
+      source: 'static'
+    };
+  }
+}
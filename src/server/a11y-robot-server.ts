@@ -2,11 +2,15 @@ import { StaticAnalyzer } from '../analyzers/static-analyzer.js';
 import { DynamicAnalyzer } from '../analyzers/dynamic-analyzer.js';
 import { WcagService } from '../services/wcag-service.js';
 import { ReportGenerator } from '../services/report-generator.js';
+import { AutofixService } from '../services/autofix-service.js';
+import { getRuleById } from '../rules/index.js';
 import { logger } from '../utils/logger.js';
 import type {
   StaticAnalysisOptions,
   DynamicAnalysisOptions,
+  UserFlowOptions,
   ReportGenerationOptions,
+  FixOptions,
   WcagQueryOptions,
   AnalysisResult,
   AccessibilityIssue,
@@ -17,6 +21,7 @@ export class A11yRobotServer {
   private dynamicAnalyzer: DynamicAnalyzer;
   private wcagService: WcagService;
   private reportGenerator: ReportGenerator;
+  private autofixService: AutofixService;
   private analysisResults: AnalysisResult[] = [];
 
   constructor() {
@@ -24,6 +29,7 @@ export class A11yRobotServer {
     this.dynamicAnalyzer = new DynamicAnalyzer();
     this.wcagService = new WcagService();
     this.reportGenerator = new ReportGenerator();
+    this.autofixService = new AutofixService();
   }
 
   async analyzeStaticAccessibility(options: StaticAnalysisOptions): Promise<{
@@ -91,6 +97,32 @@ export class A11yRobotServer {
     }
   }
 
+  async analyzeUserFlow(options: UserFlowOptions): Promise<{
+    content: Array<{
+      type: 'text';
+      text: string;
+    }>;
+  }> {
+    try {
+      const result = await this.dynamicAnalyzer.analyzeUserFlow(options);
+      this.analysisResults.push(result);
+
+      logger.info(`User-flow analysis completed. Found ${result.issues.length} issues.`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatAnalysisSummary(result),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('User-flow analysis failed:', error);
+      throw new Error(`User-flow analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   async generateAccessibilityReport(options: ReportGenerationOptions): Promise<{
     content: Array<{
       type: 'text';
@@ -106,8 +138,10 @@ export class A11yRobotServer {
       
       // Combine all analysis results
       const allIssues: AccessibilityIssue[] = [];
+      const suppressedIssues: AccessibilityIssue[] = [];
       this.analysisResults.forEach(result => {
         allIssues.push(...result.issues);
+        suppressedIssues.push(...(result.suppressedIssues || []));
       });
       
       // Sort by severity (critical > serious > moderate > minor)
@@ -116,7 +150,8 @@ export class A11yRobotServer {
       
       const combinedResult: AnalysisResult = {
         issues: allIssues,
-        summary: this.calculateSummary(allIssues),
+        summary: { ...this.calculateSummary(allIssues), suppressed: suppressedIssues.length },
+        suppressedIssues,
         analysisType: 'static' as const,
         timestamp: new Date().toISOString(),
       };
@@ -139,6 +174,68 @@ export class A11yRobotServer {
     }
   }
 
+  async fixAccessibilityIssues(options: FixOptions): Promise<{
+    content: Array<{
+      type: 'text';
+      text: string;
+    }>;
+  }> {
+    try {
+      const result = options.result ??
+        [...this.analysisResults].reverse().find(candidate => candidate.analysisType === 'static');
+      if (!result) {
+        throw new Error('No static analysis result available. Please run static analysis first or pass a result.');
+      }
+
+      const projectPath = options.projectPath ?? result.projectPath;
+      if (!projectPath) {
+        throw new Error('projectPath is required when the analysis result does not record it.');
+      }
+
+      const fixable = result.issues.filter(issue =>
+        issue.fix && (!options.rules || options.rules.length === 0 || options.rules.includes(issue.rule))
+      );
+      logger.info(`Fixing ${fixable.length} of ${result.issues.length} issues in ${projectPath}`);
+
+      const { patches, skipped } = await this.autofixService.createPatches(fixable, projectPath);
+      if (options.apply) {
+        await this.autofixService.applyPatches(patches, projectPath);
+      }
+
+      const fixedCount = patches.reduce((count, patch) => count + patch.issueIds.length, 0);
+      let response = `# Accessibility Fixes\n\n`;
+      response += `**Fixable Issues:** ${fixable.length} of ${result.issues.length}\n`;
+      response += `**Files ${options.apply ? 'Changed' : 'To Change'}:** ${patches.length}\n`;
+      response += options.apply
+        ? `\nApplied the fixes below. Re-run the analysis to refresh the results.\n`
+        : `\nNothing was written; call again with \`apply: true\` to apply these diffs.\n`;
+
+      if (skipped.length > 0) {
+        response += `\n## Skipped Fixes\n\n`;
+        response += skipped.map(({ issue, reason }) => `- \`${issue.rule}\` at ${this.formatLocation(issue)}: ${reason}`).join('\n');
+        response += '\n';
+      }
+
+      if (patches.length > 0) {
+        response += `\n## Diff\n\n\`\`\`diff\n${patches.map(patch => patch.diff).join('')}\`\`\`\n`;
+      }
+
+      logger.info(`${options.apply ? 'Applied' : 'Prepared'} fixes for ${fixedCount} issues in ${patches.length} files`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Fixing accessibility issues failed:', error);
+      throw new Error(`Fixing accessibility issues failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   async getWcagGuidelines(options: WcagQueryOptions): Promise<{
     content: Array<{
       type: 'text';
@@ -184,28 +281,76 @@ export class A11yRobotServer {
 
   private formatAnalysisSummary(result: AnalysisResult): string {
     const { summary, analysisType, timestamp } = result;
-    
-    return `# Accessibility Analysis Summary
+    const lines = [
+      '# Accessibility Analysis Summary',
+      '',
+      `**Analysis Type:** ${analysisType}`,
+      `**Timestamp:** ${timestamp}`
+    ];
 
-**Analysis Type:** ${analysisType}
-**Timestamp:** ${timestamp}
-**Total Issues Found:** ${summary.total}
+    if (result.configPath) lines.push(`**Configuration:** ${result.configPath}`);
+    if (result.files) lines.push(`**Files:** ${result.files.analyzed} analyzed, ${result.files.cached} reused from cache`);
+    if (result.changedSince) lines.push(`**Changed Since:** ${result.changedSince}`);
+    if (result.axeVersion) lines.push(`**axe-core:** ${result.axeVersion}`);
+    if (result.pages && result.pages.length > 1) lines.push(`**Pages:** ${result.pages.length} analyzed`);
+    if (result.keyboard) {
+      const focusStops = result.keyboard.reduce((total, page) => total + page.focusOrder.length, 0);
+      lines.push(`**Keyboard Audit:** ${focusStops} focus stops on ${result.keyboard.length} pages`);
+    }
+    lines.push(`**Total Issues Found:** ${summary.total}`);
+    if (summary.suppressed) lines.push(`**Suppressed Issues:** ${summary.suppressed} (justified inline suppressions)`);
 
-## Issue Breakdown by Severity:
-- 🔴 **Critical:** ${summary.critical} issues
-- 🟠 **Serious:** ${summary.serious} issues  
-- 🟡 **Moderate:** ${summary.moderate} issues
-- 🟢 **Minor:** ${summary.minor} issues
+    lines.push(
+      '',
+      '## Issue Breakdown by Severity:',
+      `- 🔴 **Critical:** ${summary.critical} issues`,
+      `- 🟠 **Serious:** ${summary.serious} issues`,
+      `- 🟡 **Moderate:** ${summary.moderate} issues`,
+      `- 🟢 **Minor:** ${summary.minor} issues`
+    );
 
-## Top Issues Found:
-${result.issues.slice(0, 10).map((issue, index) => {
-  const severityIcon = this.getSeverityIcon(issue.severity);
-  return `${index + 1}. ${severityIcon} **${issue.rule}** (${issue.wcagCriterion})\n   ${issue.description}\n   ${issue.file ? `File: ${issue.file}` : `Element: ${issue.element || 'N/A'}`}`;
-}).join('\n\n')}
+    if (result.flows) {
+      lines.push('', '## Scenarios:');
+      for (const flow of result.flows) {
+        let status = `${flow.audits} audits`;
+        if (flow.error) status += `, failed${flow.failedStep ? ` at step ${flow.failedStep}` : ''}: ${flow.error}`;
+        lines.push(`- **${flow.scenario}**: ${status}`);
+      }
+    }
 
-${result.issues.length > 10 ? `\n*...and ${result.issues.length - 10} more issues*` : ''}
+    if (result.projects) {
+      lines.push('', '## Issues by Project:');
+      for (const project of result.projects) {
+        const counts = project.summary;
+        lines.push(`- **${project.name}** (${project.type}, \`${project.root || '.'}\`): ${counts.total} issues ` +
+          `(${counts.critical} critical, ${counts.serious} serious, ${counts.moderate} moderate, ${counts.minor} minor)`);
+      }
+    }
+
+    lines.push('', '## Top Issues Found:');
+    result.issues.slice(0, 10).forEach((issue, index) => {
+      if (index > 0) lines.push('');
+      lines.push(
+        `${index + 1}. ${this.getSeverityIcon(issue.severity)} **${getRuleById(issue.rule)?.name || issue.rule}** \`${issue.rule}\` (${issue.wcagCriterion})`,
+        `   ${issue.description}`
+      );
+      if (issue.file) {
+        lines.push(`   File: ${this.formatLocation(issue)}`);
+      } else {
+        if (issue.scenario) lines.push(`   Scenario: ${issue.scenario}, step ${issue.step}`);
+        if (issue.url) lines.push(`   Page: ${issue.url}`);
+        lines.push(`   Element: ${issue.element || 'N/A'}`);
+      }
+    });
+    if (result.issues.length > 10) lines.push('', `*...and ${result.issues.length - 10} more issues*`);
+
+    lines.push('', "Run 'generate_accessibility_report' to create a detailed HTML report with all findings.");
+    return lines.join('\n');
+  }
 
-Run 'generate_accessibility_report' to create a detailed HTML report with all findings.`;
+  private formatLocation(issue: AccessibilityIssue): string {
+    if (!issue.line) return issue.file || '';
+    return `${issue.file}:${issue.line}${issue.column ? `:${issue.column}` : ''}`;
   }
 
   private getSeverityIcon(severity: string): string {
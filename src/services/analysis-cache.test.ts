@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisCache } from './analysis-cache.js';
+import { allRules } from '../rules/index.js';
+import type { AccessibilityIssue } from '../types/index.js';
+
+describe('AnalysisCache', () => {
+  let projectPath: string;
+  const issue = { id: 'img-alt-0', rule: 'img-alt', file: 'src/app.component.ts' } as AccessibilityIssue;
+  const entry = {
+    dependencies: ['src/app.component.html', 'src/app.component.scss'],
+    owned: ['src/app.component.html', 'src/app.component.scss'],
+    usesGlobalStyles: true,
+    usesTitleStrategy: false,
+    issues: [issue]
+  };
+
+  const write = (file: string, content: string) => fs.outputFile(path.join(projectPath, file), content);
+  const storeAndSave = async (version = 'v1') => {
+    const cache = await AnalysisCache.load(projectPath, version);
+    cache.setGlobalCustomProperties({ '--primary': '#000' });
+    await cache.store('src/app.component.ts', entry);
+    await cache.save();
+  };
+  const reload = async (version = 'v1', properties: Record<string, string> = { '--primary': '#000' }) => {
+    const cache = await AnalysisCache.load(projectPath, version);
+    cache.setGlobalCustomProperties(properties);
+    return cache.lookup('src/app.component.ts');
+  };
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'a11y-robot-cache-'));
+    await write('src/app.component.ts', 'export class AppComponent {}');
+    await write('src/app.component.html', '<img src="a.png">');
+    await write('src/app.component.scss', 'img { color: red; }');
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('reuses an entry while the file and its dependencies are unchanged', async () => {
+    await storeAndSave();
+
+    expect((await reload())?.issues).toEqual([issue]);
+  });
+
+  it('invalidates an entry when the file or a dependency changes', async () => {
+    await storeAndSave();
+    await write('src/app.component.html', '<img src="a.png" alt="">');
+    expect(await reload()).toBeUndefined();
+
+    await storeAndSave();
+    await write('src/app.component.ts', 'export class AppComponent { title = 1; }');
+    expect(await reload()).toBeUndefined();
+  });
+
+  it('invalidates an entry when a dependency is deleted', async () => {
+    await storeAndSave();
+    await fs.remove(path.join(projectPath, 'src/app.component.scss'));
+
+    expect(await reload()).toBeUndefined();
+  });
+
+  it('invalidates stylesheet-based entries when the global custom properties change', async () => {
+    await storeAndSave();
+
+    expect(await reload('v1', { '--primary': '#fff' })).toBeUndefined();
+  });
+
+  it('starts fresh for another version or with noCache', async () => {
+    await storeAndSave();
+
+    expect(await reload('v2')).toBeUndefined();
+    expect(await (await AnalysisCache.load(projectPath, 'v1', true)).lookup('src/app.component.ts')).toBeUndefined();
+  });
+
+  it('drops entries that were neither used nor retained when saving', async () => {
+    await storeAndSave();
+    await (await AnalysisCache.load(projectPath, 'v1')).save();
+
+    expect(await reload()).toBeUndefined();
+  });
+
+  it('invalidates route file entries when the TitleStrategy fact changes', async () => {
+    const cache = await AnalysisCache.load(projectPath, 'v1');
+    cache.setCustomTitleStrategy(false);
+    await cache.store('src/app.component.ts', { ...entry, usesGlobalStyles: false, usesTitleStrategy: true });
+    await cache.save();
+
+    const withStrategy = await AnalysisCache.load(projectPath, 'v1');
+    withStrategy.setCustomTitleStrategy(true);
+    expect(await withStrategy.lookup('src/app.component.ts')).toBeUndefined();
+
+    const without = await AnalysisCache.load(projectPath, 'v1');
+    without.setCustomTitleStrategy(false);
+    expect(await without.lookup('src/app.component.ts')).toBeDefined();
+  });
+
+  it('recomputes source facts only for files whose content changed', async () => {
+    const facts = { titleStrategy: false, resources: ['src/app.component.html'] };
+    const compute = jest.fn(async () => facts);
+    const first = await AnalysisCache.load(projectPath, 'v1');
+    await first.sourceFacts('src/app.component.ts', compute);
+    await first.save();
+
+    expect(await (await AnalysisCache.load(projectPath, 'v1')).sourceFacts('src/app.component.ts', compute)).toEqual(facts);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    await write('src/app.component.ts', 'export class AppComponent { title = 1; }');
+    await (await AnalysisCache.load(projectPath, 'v1')).sourceFacts('src/app.component.ts', compute);
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('derives the version from rules, configuration and level', async () => {
+    const base = await AnalysisCache.version(allRules, {}, { projectPath });
+
+    expect(await AnalysisCache.version(allRules, {}, { projectPath: '/elsewhere' })).toBe(base);
+    expect(await AnalysisCache.version(allRules.slice(1), {}, { projectPath })).not.toBe(base);
+    expect(await AnalysisCache.version(allRules, { level: 'AA' }, { projectPath })).not.toBe(base);
+    expect(await AnalysisCache.version(allRules, {}, { projectPath, wcagLevel: 'A' })).not.toBe(base);
+  });
+});
@@ -0,0 +1,213 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import { logger } from '../utils/logger.js';
+import type { A11yRobotConfig, AccessibilityIssue, AccessibilityRule, StaticAnalysisOptions } from '../types/index.js';
+
+// Bump when the layout of the cache file or of cached issues changes
+const cacheFormat = 2;
+
+export interface CachedAnalysis {
+  /** Combined hash of the file, its dependencies and (if used) the global custom properties and TitleStrategy. */
+  hash: string;
+  /** Project-relative files besides the file itself that the issues depend on. */
+  dependencies: string[];
+  /** Templates and stylesheets analyzed as part of this file's components. */
+  owned: string[];
+  usesGlobalStyles: boolean;
+  /** Whether the issues depend on the project replacing Angular's TitleStrategy (route files). */
+  usesTitleStrategy: boolean;
+  issues: AccessibilityIssue[];
+}
+
+/** What the analysis needs to know about a TypeScript file before analyzing any file. */
+export interface SourceFacts {
+  /** Whether the file extends or provides Angular's TitleStrategy. */
+  titleStrategy: boolean;
+  /** Project-relative templates and stylesheets its components reference. */
+  resources: string[];
+}
+
+interface CachedCustomProperties {
+  hash: string;
+  properties: Record<string, string>;
+}
+
+interface CachedSourceFacts {
+  hash: string;
+  facts: SourceFacts;
+}
+
+interface CacheData {
+  version: string;
+  files: Record<string, CachedAnalysis>;
+  customProperties: Record<string, CachedCustomProperties>;
+  sourceFacts: Record<string, CachedSourceFacts>;
+}
+
+/**
+ * Persists static analysis results per file under `<project>/.cache/a11y-robot`, keyed by
+ * the content hashes of the file and everything it depends on. A different tool version,
+ * rule set or configuration invalidates the whole cache.
+ */
+export class AnalysisCache {
+  private readonly contentHashes = new Map<string, string>();
+  private readonly next: CacheData;
+  private globalStylesHash = '';
+  private titleStrategyHash = '';
+
+  private constructor(
+    private readonly projectPath: string,
+    private readonly previous: CacheData
+  ) {
+    this.next = { version: previous.version, files: {}, customProperties: {}, sourceFacts: {} };
+  }
+
+  /** Loads the project's cache; with `noCache` (or a version change) it starts out empty. */
+  static async load(projectPath: string, version: string, noCache = false, logCollector?: string[]): Promise<AnalysisCache> {
+    const empty: CacheData = { version, files: {}, customProperties: {}, sourceFacts: {} };
+    const file = AnalysisCache.cacheFile(projectPath);
+
+    if (noCache || !await fs.pathExists(file)) {
+      return new AnalysisCache(projectPath, empty);
+    }
+
+    try {
+      const data = await fs.readJson(file) as CacheData;
+      if (data.version !== version) {
+        if (logCollector) logCollector.push('Analysis cache is from another rule set or configuration, starting fresh');
+        return new AnalysisCache(projectPath, empty);
+      }
+      return new AnalysisCache(projectPath, data);
+    } catch (error) {
+      logger.warn(`Ignoring unreadable analysis cache ${file}:`, error);
+      if (logCollector) logCollector.push(`Ignoring unreadable analysis cache ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      return new AnalysisCache(projectPath, empty);
+    }
+  }
+
+  /** Fingerprint of everything besides file contents that affects the issues. */
+  static async version(rules: AccessibilityRule[], config: A11yRobotConfig, options: StaticAnalysisOptions): Promise<string> {
+    const ruleSet = rules.map(rule => [
+      rule.id, rule.severity, rule.wcagLevel, rule.wcagCriterion, rule.message,
+      String(rule.check), String(rule.detail), String(rule.fix)
+    ]);
+    const toolVersion = await AnalysisCache.toolVersion();
+    return hash(JSON.stringify({ cacheFormat, toolVersion, ruleSet, config, wcagLevel: options.wcagLevel ?? null }));
+  }
+
+  private static async toolVersion(): Promise<string> {
+    try {
+      const packageJson = await fs.readJson(fileURLToPath(new URL('../../package.json', import.meta.url)));
+      return String(packageJson.version);
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  private static cacheFile(projectPath: string): string {
+    return path.join(projectPath, '.cache', 'a11y-robot', 'static-analysis.json');
+  }
+
+  /** Global custom properties are an input to every stylesheet-based result. */
+  setGlobalCustomProperties(properties: Record<string, string>): void {
+    this.globalStylesHash = hash(JSON.stringify(properties));
+  }
+
+  /** Whether the project replaces Angular's TitleStrategy is an input to every route file's result. */
+  setCustomTitleStrategy(customTitleStrategy: boolean): void {
+    this.titleStrategyHash = String(customTitleStrategy);
+  }
+
+  /** The cached result for a project-relative file, if it and its dependencies are unchanged. */
+  async lookup(file: string): Promise<CachedAnalysis | undefined> {
+    const entry = this.previous.files[file];
+    if (!entry || entry.hash !== await this.combinedHash(file, entry)) {
+      return undefined;
+    }
+
+    this.next.files[file] = entry;
+    return entry;
+  }
+
+  /** Keeps a file's previous entry as is, for files outside the part of the project analyzed. */
+  retain(file: string): void {
+    const entry = this.previous.files[file];
+    if (entry) this.next.files[file] = entry;
+  }
+
+  async store(file: string, entry: Omit<CachedAnalysis, 'hash'>): Promise<void> {
+    const dependencies = [...new Set(entry.dependencies)].filter(dependency => dependency !== file);
+    this.next.files[file] = {
+      ...entry,
+      dependencies,
+      hash: await this.combinedHash(file, { ...entry, dependencies })
+    };
+  }
+
+  /** Custom properties of a stylesheet, recomputed only when its content changed. */
+  async customProperties(
+    file: string,
+    compute: () => Promise<Record<string, string>>
+  ): Promise<Record<string, string>> {
+    const contentHash = await this.contentHash(file);
+    const cached = this.previous.customProperties[file];
+    const properties = cached && cached.hash === contentHash ? cached.properties : await compute();
+
+    this.next.customProperties[file] = { hash: contentHash, properties };
+    return properties;
+  }
+
+  /** Facts about a TypeScript file, recomputed only when its content changed. */
+  async sourceFacts(file: string, compute: () => Promise<SourceFacts>): Promise<SourceFacts> {
+    const contentHash = await this.contentHash(file);
+    const cached = this.previous.sourceFacts[file];
+    const facts = cached && cached.hash === contentHash ? cached.facts : await compute();
+
+    this.next.sourceFacts[file] = { hash: contentHash, facts };
+    return facts;
+  }
+
+  /** Writes the entries used or stored in this run, dropping those of deleted files. */
+  async save(logCollector?: string[]): Promise<void> {
+    const file = AnalysisCache.cacheFile(this.projectPath);
+    try {
+      await fs.outputJson(file, this.next);
+    } catch (error) {
+      logger.warn(`Failed to write analysis cache ${file}:`, error);
+      if (logCollector) logCollector.push(`Failed to write analysis cache ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async combinedHash(
+    file: string,
+    entry: Pick<CachedAnalysis, 'dependencies' | 'usesGlobalStyles' | 'usesTitleStrategy'>
+  ): Promise<string> {
+    const parts = [await this.contentHash(file)];
+    for (const dependency of entry.dependencies) {
+      parts.push(`${dependency}:${await this.contentHash(dependency)}`);
+    }
+    if (entry.usesGlobalStyles) parts.push(this.globalStylesHash);
+    if (entry.usesTitleStrategy) parts.push(`title-strategy:${this.titleStrategyHash}`);
+    return hash(parts.join('\n'));
+  }
+
+  /** Hash of a project-relative file's content; missing files hash to a fixed marker. */
+  private async contentHash(file: string): Promise<string> {
+    let contentHash = this.contentHashes.get(file);
+    if (contentHash === undefined) {
+      try {
+        contentHash = hash(await fs.readFile(path.resolve(this.projectPath, file)));
+      } catch {
+        contentHash = 'missing';
+      }
+      this.contentHashes.set(file, contentHash);
+    }
+    return contentHash;
+  }
+}
+
+function hash(content: string | Buffer): string {
+  return createHash('sha1').update(content).digest('hex');
+}
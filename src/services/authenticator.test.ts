@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import type { BrowserContext, Route } from 'playwright';
+import { Authenticator } from './authenticator.js';
+
+/** Records what the authenticator does to a browser context and its login page. */
+function stubContext(failingSelector?: string) {
+  const calls: string[] = [];
+  const routes: Array<{ matches: (url: URL) => boolean; handler: (route: Route) => unknown }> = [];
+  const cookies: unknown[] = [];
+  const page = {
+    setDefaultTimeout: () => undefined,
+    setDefaultNavigationTimeout: () => undefined,
+    goto: async (url: string) => { calls.push(`goto ${url}`); },
+    fill: async (selector: string, value: string) => {
+      if (selector === failingSelector) throw new Error(`Timeout waiting for ${selector} to fill "${value}"`);
+      calls.push(`fill ${selector} ${value}`);
+    },
+    click: async (selector: string) => { calls.push(`click ${selector}`); },
+    press: async (selector: string, key: string) => { calls.push(`press ${selector} ${key}`); },
+    waitForSelector: async (selector: string) => { calls.push(`waitForSelector ${selector}`); },
+    waitForURL: async (url: string) => { calls.push(`waitForURL ${url}`); },
+    waitForLoadState: async () => undefined,
+    close: async () => { calls.push('close'); }
+  };
+  const context = {
+    route: async (matches: (url: URL) => boolean, handler: (route: Route) => unknown) => { routes.push({ matches, handler }); },
+    addCookies: async (added: unknown[]) => { cookies.push(...added); },
+    newPage: async () => page
+  };
+  return { context: context as unknown as BrowserContext, calls, routes, cookies };
+}
+
+describe('Authenticator', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'a11y-robot-auth-'));
+    process.env.A11Y_ROBOT_TEST_TOKEN = 'token-123';
+    process.env.A11Y_ROBOT_TEST_PASSWORD = 'hunter2';
+  });
+
+  afterEach(async () => {
+    delete process.env.A11Y_ROBOT_TEST_TOKEN;
+    delete process.env.A11Y_ROBOT_TEST_PASSWORD;
+    jest.restoreAllMocks();
+    await fs.remove(baseDir);
+  });
+
+  it('resolves the storage state file against the project', async () => {
+    await fs.writeJson(path.join(baseDir, 'auth.json'), { cookies: [], origins: [] });
+
+    expect(await new Authenticator({ storageState: 'auth.json' }, baseDir).contextOptions())
+      .toEqual({ storageState: path.join(baseDir, 'auth.json') });
+    expect(await new Authenticator({}, baseDir).contextOptions()).toEqual({});
+    await expect(new Authenticator({ storageState: 'missing.json' }, baseDir).contextOptions())
+      .rejects.toThrow(`Storage state file not found: ${path.join(baseDir, 'missing.json')}`);
+  });
+
+  it('adds headers to requests for the analyzed origin only', async () => {
+    const { context, routes } = stubContext();
+    await new Authenticator({ headers: { Authorization: 'Bearer ${env:A11Y_ROBOT_TEST_TOKEN}' } }, baseDir)
+      .apply(context, 'https://app.test/dashboard', 1000);
+
+    expect(routes).toHaveLength(1);
+    expect(routes[0].matches(new URL('https://app.test/api/orders'))).toBe(true);
+    expect(routes[0].matches(new URL('https://cdn.test/app.js'))).toBe(false);
+
+    const continued = jest.fn();
+    await routes[0].handler({ request: () => ({ headers: () => ({ accept: 'text/html' }) }), continue: continued } as unknown as Route);
+    expect(continued).toHaveBeenCalledWith({ headers: { accept: 'text/html', authorization: 'Bearer token-123' } });
+  });
+
+  it('adds cookies for the origin or their own domain', async () => {
+    const { context, cookies } = stubContext();
+    await new Authenticator({
+      cookies: [
+        { name: 'session', value: '${env:A11Y_ROBOT_TEST_TOKEN}' },
+        { name: 'scoped', value: 'a', path: '/admin' },
+        { name: 'shared', value: 'b', domain: '.app.test' }
+      ]
+    }, baseDir).apply(context, 'https://app.test/dashboard', 1000);
+
+    expect(cookies).toEqual([
+      { name: 'session', value: 'token-123', url: 'https://app.test' },
+      { name: 'scoped', value: 'a', url: 'https://app.test/admin' },
+      { name: 'shared', value: 'b', domain: '.app.test', path: '/' }
+    ]);
+  });
+
+  it('runs the login script in its own page', async () => {
+    const { context, calls } = stubContext();
+    await new Authenticator({
+      login: {
+        url: '/login',
+        steps: [
+          { action: 'fill', selector: '#user', value: 'ada' },
+          { action: 'fill', selector: '#password', value: '${env:A11Y_ROBOT_TEST_PASSWORD}' },
+          { action: 'press', selector: '#password', key: 'Enter' },
+          { action: 'waitForUrl', url: '**/dashboard' },
+          { action: 'waitForSelector', selector: 'app-root nav' }
+        ]
+      }
+    }, baseDir).apply(context, 'https://app.test/dashboard', 1000);
+
+    expect(calls).toEqual([
+      'goto https://app.test/login',
+      'fill #user ada',
+      'fill #password hunter2',
+      'press #password Enter',
+      'waitForURL **/dashboard',
+      'waitForSelector app-root nav',
+      'close'
+    ]);
+  });
+
+  it('rejects references to unset environment variables', async () => {
+    const { context } = stubContext();
+    await expect(new Authenticator({ headers: { 'X-Api-Key': '${env:A11Y_ROBOT_TEST_UNSET}' } }, baseDir).apply(context, 'https://app.test/', 1000))
+      .rejects.toThrow('Environment variable A11Y_ROBOT_TEST_UNSET (used for header X-Api-Key) is not set');
+  });
+
+  it('masks secrets in login errors and in what it logs', async () => {
+    const output = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { context } = stubContext('#password');
+    const authenticator = new Authenticator({
+      headers: { Authorization: 'Bearer ${env:A11Y_ROBOT_TEST_TOKEN}' },
+      login: { url: '/login', steps: [{ action: 'fill', selector: '#password', value: '${env:A11Y_ROBOT_TEST_PASSWORD}' }] }
+    }, baseDir);
+
+    await expect(authenticator.apply(context, 'https://app.test/', 1000))
+      .rejects.toThrow('Login failed at step 1 (fill #password): Timeout waiting for #password to fill "***"');
+    expect(authenticator.redactText('Bearer token-123 and hunter2')).toBe('*** and ***');
+    expect((authenticator.redact(new Error('Unauthorized: token-123')) as Error).message).toBe('Unauthorized: ***');
+
+    const logged = JSON.stringify(output.mock.calls);
+    expect(logged).not.toContain('token-123');
+    expect(logged).not.toContain('hunter2');
+  });
+});
@@ -0,0 +1,159 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import type { BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { logger } from '../utils/logger.js';
+import type { DynamicAuthentication, LoginStep } from '../types/index.js';
+
+const envReference = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Sets up an authenticated browser session for dynamic analysis from a storage state file,
+ * headers, cookies and a declarative login script. Every secret it handles (header and
+ * cookie values, filled values, environment variables) is masked by `redact`.
+ */
+export class Authenticator {
+  private readonly secrets = new Set<string>();
+
+  constructor(
+    private readonly auth: DynamicAuthentication,
+    private readonly baseDir: string
+  ) {}
+
+  /** Context options that must be set when the browser context is created. */
+  async contextOptions(): Promise<BrowserContextOptions> {
+    if (!this.auth.storageState) return {};
+
+    const file = path.resolve(this.baseDir, this.auth.storageState);
+    if (!await fs.pathExists(file)) {
+      throw new Error(`Storage state file not found: ${file}`);
+    }
+    logger.info(`Using browser storage state from ${file}`);
+    return { storageState: file };
+  }
+
+  /**
+   * Adds headers and cookies for the origin of `url` to the context and runs the login
+   * script (its URL may be relative to `url`).
+   */
+  async apply(context: BrowserContext, url: string, timeout: number): Promise<void> {
+    const origin = new URL(url).origin;
+
+    const headers = Object.fromEntries(
+      Object.entries(this.auth.headers || {}).map(([name, value]) => [name.toLowerCase(), this.secret(value, `header ${name}`)])
+    );
+    if (Object.keys(headers).length > 0) {
+      // Scoped to the site so credentials are not sent to third-party hosts
+      await context.route(
+        requestUrl => requestUrl.origin === origin,
+        route => route.continue({ headers: { ...route.request().headers(), ...headers } })
+      );
+      logger.info(`Sending ${Object.keys(headers).length} extra headers to ${origin}`);
+    }
+
+    if (this.auth.cookies?.length) {
+      await context.addCookies(this.auth.cookies.map(cookie => {
+        const value = this.secret(cookie.value, `cookie ${cookie.name}`);
+        return cookie.domain
+          ? { name: cookie.name, value, domain: cookie.domain, path: cookie.path || '/' }
+          : { name: cookie.name, value, url: cookie.path ? new URL(cookie.path, origin).href : origin };
+      }));
+      logger.info(`Added ${this.auth.cookies.length} cookies`);
+    }
+
+    if (this.auth.login) {
+      await this.login(context, new URL(this.auth.login.url, url).href, timeout);
+    }
+  }
+
+  /** Replaces every secret in `error`'s message with `***`. */
+  redact(error: unknown): unknown {
+    const message = error instanceof Error ? error.message : String(error);
+    const redacted = this.redactText(message);
+    return redacted === message ? error : new Error(redacted);
+  }
+
+  private async login(context: BrowserContext, url: string, timeout: number): Promise<void> {
+    const steps = this.auth.login?.steps || [];
+    const page = await context.newPage();
+    page.setDefaultTimeout(timeout);
+    page.setDefaultNavigationTimeout(timeout);
+
+    try {
+      logger.info(`Signing in at ${url}`);
+      await page.goto(url, { waitUntil: 'domcontentloaded' });
+
+      for (const [index, step] of steps.entries()) {
+        logger.debug(`Login step ${index + 1}: ${this.describe(step)}`);
+        try {
+          await this.runStep(page, step);
+        } catch (error) {
+          const message = this.redactText(error instanceof Error ? error.message : String(error));
+          throw new Error(`Login failed at step ${index + 1} (${this.describe(step)}): ${message}`);
+        }
+      }
+
+      await page.waitForLoadState('networkidle').catch(() => undefined);
+      logger.info('Signed in; the session is reused for every analyzed page');
+    } finally {
+      await page.close();
+    }
+  }
+
+  private async runStep(page: Page, step: LoginStep): Promise<void> {
+    switch (step.action) {
+      case 'fill':
+        await page.fill(step.selector, this.secret(step.value, `the value for ${step.selector}`));
+        break;
+      case 'click':
+        await page.click(step.selector);
+        break;
+      case 'press':
+        await page.press(step.selector, step.key);
+        break;
+      case 'waitForSelector':
+        await page.waitForSelector(step.selector);
+        break;
+      case 'waitForUrl':
+        await page.waitForURL(step.url);
+        break;
+      default:
+        throw new Error(`Unknown login action: ${(step as { action?: unknown }).action}`);
+    }
+  }
+
+  /** The step without its value, safe to log. */
+  private describe(step: LoginStep): string {
+    switch (step.action) {
+      case 'waitForUrl':
+        return `waitForUrl ${step.url}`;
+      case 'press':
+        return `press ${step.key} in ${step.selector}`;
+      default:
+        return `${step.action} ${step.selector}`;
+    }
+  }
+
+  /** Resolves `${env:NAME}` references and registers the result for redaction. */
+  private secret(value: string, what: string): string {
+    const resolved = value.replace(envReference, (_match, name: string) => {
+      const env = process.env[name];
+      if (env === undefined) {
+        throw new Error(`Environment variable ${name} (used for ${what}) is not set`);
+      }
+      if (env) this.secrets.add(env);
+      return env;
+    });
+    if (resolved) this.secrets.add(resolved);
+    return resolved;
+  }
+
+  /** `text` with every secret replaced by `***`. */
+  redactText(text: string): string {
+    let redacted = text;
+    // Longest first, so a secret containing another is masked whole
+    for (const secret of [...this.secrets].sort((a, b) => b.length - a.length)) {
+      redacted = redacted.split(secret).join('***');
+    }
+    return redacted;
+  }
+}
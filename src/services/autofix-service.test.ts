@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { AutofixService } from './autofix-service.js';
+import type { AccessibilityIssue, FixEdit } from '../types/index.js';
+
+describe('AutofixService', () => {
+  let projectPath: string;
+  const service = new AutofixService();
+  const template = '<button>Save</button>\n<img src="a.png">\n';
+  const issueWith = (id: string, ...edits: FixEdit[]) =>
+    ({ id, rule: id, fix: { description: id, edits } }) as AccessibilityIssue;
+  const buttonType = () => issueWith('button-type', { file: 'app.html', start: 7, end: 7, text: ' type="button"' });
+  const imgAlt = () => issueWith('img-alt', { file: 'app.html', start: 38, end: 38, text: ' alt=""' });
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'a11y-robot-autofix-'));
+    await fs.writeFile(path.join(projectPath, 'app.html'), template);
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('records content hashes and a diff preview for each fix', async () => {
+    const issue = buttonType();
+    await service.describeFixes([issue], projectPath);
+
+    expect(issue.fix!.edits[0].contentHash).toMatch(/^[0-9a-f]+$/);
+    expect(issue.fix!.diff).toContain('+<button type="button">Save</button>');
+  });
+
+  it('combines the fixes of one file into a single patch', async () => {
+    const issues = [buttonType(), imgAlt()];
+    await service.describeFixes(issues, projectPath);
+
+    const { patches, skipped } = await service.createPatches(issues, projectPath);
+
+    expect(skipped).toEqual([]);
+    expect(patches).toHaveLength(1);
+    expect(patches[0].patched).toBe('<button type="button">Save</button>\n<img src="a.png" alt="">\n');
+    expect(patches[0].issueIds).toEqual(['button-type', 'img-alt']);
+  });
+
+  it('skips fixes for files that changed since the analysis', async () => {
+    const issue = buttonType();
+    await service.describeFixes([issue], projectPath);
+    await fs.writeFile(path.join(projectPath, 'app.html'), `<!-- edited -->\n${template}`);
+
+    const { patches, skipped } = await service.createPatches([issue], projectPath);
+
+    expect(patches).toEqual([]);
+    expect(skipped).toEqual([{ issue, reason: 'app.html changed since the analysis; re-run it before fixing' }]);
+  });
+
+  it('skips fixes that overlap an earlier fix or fall outside the file', async () => {
+    const overlapping = issueWith('button-name', { file: 'app.html', start: 0, end: 21, text: '<button>Store</button>' });
+    const outside = issueWith('link-name', { file: 'app.html', start: 500, end: 500, text: 'x' });
+    const issues = [buttonType(), overlapping, outside];
+    await service.describeFixes(issues, projectPath);
+
+    const { skipped } = await service.createPatches(issues, projectPath);
+
+    expect(skipped.map(fix => [fix.issue.id, fix.reason])).toEqual([
+      ['button-name', 'overlaps another fix in app.html'],
+      ['link-name', 'edit is outside of app.html']
+    ]);
+  });
+});
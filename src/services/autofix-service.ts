@@ -0,0 +1,187 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createTwoFilesPatch } from 'diff';
+import { logger } from '../utils/logger.js';
+import type { AccessibilityIssue, FixEdit } from '../types/index.js';
+
+export interface FilePatch {
+  file: string;
+  original: string;
+  patched: string;
+  diff: string;
+  issueIds: string[];
+}
+
+export interface SkippedFix {
+  issue: AccessibilityIssue;
+  reason: string;
+}
+
+export interface PatchSet {
+  patches: FilePatch[];
+  skipped: SkippedFix[];
+}
+
+/**
+ * Turns the `fix` descriptors of static issues into per-file patches. Edits are
+ * plain text insertions/replacements by offset, so the rest of each file keeps its
+ * original formatting.
+ */
+export class AutofixService {
+  /**
+   * Records the content hash of every file a fix edits and attaches a diff preview
+   * of each fix on its own.
+   */
+  async describeFixes(issues: AccessibilityIssue[], projectPath: string, logCollector?: string[]): Promise<void> {
+    const contents = new Map<string, string | null>();
+
+    for (const issue of issues) {
+      if (!issue.fix) continue;
+
+      const diffs: string[] = [];
+      for (const [file, edits] of this.groupByFile(issue.fix.edits)) {
+        const content = await this.readCached(contents, file, projectPath);
+        if (content === null) {
+          if (logCollector) logCollector.push(`Cannot preview fix for ${issue.rule}: ${file} is not readable`);
+          continue;
+        }
+
+        const contentHash = this.hash(content);
+        edits.forEach(edit => { edit.contentHash = contentHash; });
+        diffs.push(this.createDiff(file, content, this.applyEdits(content, edits)));
+      }
+
+      if (diffs.length > 0) issue.fix.diff = diffs.join('');
+    }
+  }
+
+  /**
+   * Combines the fixes of `issues` into one patch per file. Fixes whose file changed
+   * since the analysis, or whose edits overlap an earlier fix, are skipped as a whole.
+   */
+  async createPatches(issues: AccessibilityIssue[], projectPath: string): Promise<PatchSet> {
+    const contents = new Map<string, string | null>();
+    const accepted = new Map<string, FixEdit[]>();
+    const issueIds = new Map<string, string[]>();
+    const skipped: SkippedFix[] = [];
+
+    for (const issue of issues) {
+      if (!issue.fix) continue;
+
+      const reason = await this.rejectionReason(issue.fix.edits, accepted, contents, projectPath);
+      if (reason) {
+        skipped.push({ issue, reason });
+        continue;
+      }
+
+      for (const edit of issue.fix.edits) {
+        const fileEdits = accepted.get(edit.file) ?? [];
+        if (!fileEdits.some(existing => this.sameEdit(existing, edit))) fileEdits.push(edit);
+        accepted.set(edit.file, fileEdits);
+        issueIds.set(edit.file, [...new Set([...(issueIds.get(edit.file) ?? []), issue.id])]);
+      }
+    }
+
+    const patches: FilePatch[] = [];
+    for (const [file, edits] of accepted) {
+      const original = contents.get(file)!;
+      const patched = this.applyEdits(original, edits);
+      patches.push({ file, original, patched, diff: this.createDiff(file, original, patched), issueIds: issueIds.get(file) ?? [] });
+    }
+
+    return { patches: patches.sort((a, b) => a.file.localeCompare(b.file)), skipped };
+  }
+
+  async applyPatches(patches: FilePatch[], projectPath: string): Promise<void> {
+    for (const patch of patches) {
+      await fs.writeFile(this.resolveInProject(patch.file, projectPath), patch.patched, 'utf8');
+      logger.info(`Applied accessibility fixes to ${patch.file}`);
+    }
+  }
+
+  private async rejectionReason(
+    edits: FixEdit[],
+    accepted: Map<string, FixEdit[]>,
+    contents: Map<string, string | null>,
+    projectPath: string
+  ): Promise<string | undefined> {
+    for (const edit of edits) {
+      const content = await this.readCached(contents, edit.file, projectPath);
+      if (content === null) {
+        return `${edit.file} is not readable`;
+      }
+      if (edit.contentHash && edit.contentHash !== this.hash(content)) {
+        return `${edit.file} changed since the analysis; re-run it before fixing`;
+      }
+      if (edit.start < 0 || edit.end < edit.start || edit.end > content.length) {
+        return `edit is outside of ${edit.file}`;
+      }
+
+      const conflict = (accepted.get(edit.file) ?? []).some(existing =>
+        !this.sameEdit(existing, edit) && existing.start < edit.end && edit.start < existing.end
+      );
+      if (conflict) {
+        return `overlaps another fix in ${edit.file}`;
+      }
+    }
+    return undefined;
+  }
+
+  /** Applies edits back to front; insertions at the same offset keep their order. */
+  private applyEdits(content: string, edits: FixEdit[]): string {
+    const ordered = edits
+      .map((edit, index) => ({ edit, index }))
+      .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index);
+
+    let result = content;
+    for (const { edit } of ordered) {
+      result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return result;
+  }
+
+  private createDiff(file: string, original: string, patched: string): string {
+    const name = file.split(path.sep).join('/');
+    return createTwoFilesPatch(`a/${name}`, `b/${name}`, original, patched, undefined, undefined, { context: 3 })
+      .replace(/^=+\n/, '');
+  }
+
+  private groupByFile(edits: FixEdit[]): Map<string, FixEdit[]> {
+    const groups = new Map<string, FixEdit[]>();
+    for (const edit of edits) {
+      groups.set(edit.file, [...(groups.get(edit.file) ?? []), edit]);
+    }
+    return groups;
+  }
+
+  private sameEdit(a: FixEdit, b: FixEdit): boolean {
+    return a.file === b.file && a.start === b.start && a.end === b.end && a.text === b.text;
+  }
+
+  private async readCached(contents: Map<string, string | null>, file: string, projectPath: string): Promise<string | null> {
+    if (!contents.has(file)) {
+      try {
+        contents.set(file, await fs.readFile(this.resolveInProject(file, projectPath), 'utf8'));
+      } catch (error) {
+        logger.warn(`Failed to read ${file} for fixing:`, error);
+        contents.set(file, null);
+      }
+    }
+    return contents.get(file)!;
+  }
+
+  /** Fix descriptors may come from a client, so never touch files outside the project. */
+  private resolveInProject(file: string, projectPath: string): string {
+    const resolved = path.resolve(projectPath, file);
+    const relative = path.relative(path.resolve(projectPath), resolved);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Refusing to fix ${file}: outside of ${projectPath}`);
+    }
+    return resolved;
+  }
+
+  private hash(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigLoader, resolveRuleSettings, resolveTargetLevel } from './config-loader.js';
+import type { A11yRobotConfig } from '../types/index.js';
+
+describe('ConfigLoader', () => {
+  let projectPath: string;
+  const load = async (config: unknown) => {
+    await fs.outputJson(path.join(projectPath, '.a11yrobotrc.json'), config);
+    return new ConfigLoader().load(projectPath);
+  };
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'a11y-robot-config-'));
+    await fs.ensureDir(path.join(projectPath, '.git'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('returns an empty configuration when there is no config file', async () => {
+    expect(await new ConfigLoader().load(projectPath)).toEqual({ config: {} });
+  });
+
+  it('discovers a config file in a parent directory of the project', async () => {
+    await fs.outputJson(path.join(projectPath, '.a11yrobotrc.json'), { level: 'AA' });
+    const nested = path.join(projectPath, 'apps', 'shop');
+    await fs.ensureDir(nested);
+
+    expect(await new ConfigLoader().load(nested)).toEqual({
+      config: { level: 'AA' },
+      path: path.join(projectPath, '.a11yrobotrc.json')
+    });
+  });
+
+  it('loads TypeScript configs', async () => {
+    await fs.outputFile(path.join(projectPath, 'a11y-robot.config.ts'), [
+      "const level: 'A' | 'AA' | 'AAA' = 'AAA';",
+      'export default { level, rules: { "img-alt": "off" } };'
+    ].join('\n'));
+
+    const { config } = await new ConfigLoader().load(projectPath);
+
+    expect(config).toEqual({ level: 'AAA', rules: { 'img-alt': 'off' } });
+  });
+
+  it('resolves the imports of TypeScript configs without writing to the project', async () => {
+    await fs.outputFile(path.join(projectPath, 'config/shared.mjs'), "export const level = 'AA';\n");
+    await fs.outputFile(path.join(projectPath, 'a11y-robot.config.ts'), [
+      "import * as path from 'node:path';",
+      "import { level } from './config/shared.mjs';",
+      "export default { level, includePatterns: [path.posix.join('src', '**', '*.html')] };"
+    ].join('\n'));
+    const before = await fs.readdir(projectPath);
+
+    const { config } = await new ConfigLoader().load(projectPath);
+
+    expect(config).toEqual({ level: 'AA', includePatterns: ['src/**/*.html'] });
+    expect(await fs.readdir(projectPath)).toEqual(before);
+  });
+
+  it('accepts valid rule settings and overrides', async () => {
+    const config = {
+      level: 'AA',
+      rules: { 'img-alt': 'serious', 'link-text': 'off', 'button-type': { severity: 'minor', wcagLevel: 'AAA' } },
+      overrides: [{ files: 'legacy/**', rules: { 'color-contrast': 'off' } }],
+      components: { 'app-field': { kind: 'label', nameInputs: ['label'] } }
+    };
+
+    expect((await load(config)).config).toEqual(config);
+  });
+
+  it.each([
+    [[], 'must be an object'],
+    [{ level: 'AAAA' }, '"level" must be one of A, AA, AAA'],
+    [{ rules: { 'img-alt': 'loud' } }, 'rules.img-alt must be "off", "on", a severity or an object'],
+    [{ rules: { 'img-alt': { severity: 'high' } } }, 'rules.img-alt.severity must be one of'],
+    [{ overrides: [{ rules: {} }] }, 'overrides[0].files is required'],
+    [{ overrides: [{ files: ['**'], rules: { 'img-alt': 3 } }] }, 'overrides[0].rules.img-alt must be'],
+    [{ locales: 'en' }, '"locales" must be an array of language tags'],
+    [{ components: { 'app-field': { kind: 'input' } } }, 'components.app-field.kind must be "label" or "control"'],
+    [{ axePath: ' ' }, '"axePath" must be a path to an axe-core build']
+  ])('rejects %j', async (config, message) => {
+    await expect(load(config)).rejects.toThrow(message);
+  });
+
+  it('fails for an explicit config path that does not exist', async () => {
+    await expect(new ConfigLoader().load(projectPath, 'missing.json')).rejects.toThrow('Configuration file not found');
+  });
+});
+
+describe('resolveRuleSettings', () => {
+  const config: A11yRobotConfig = {
+    level: 'AA',
+    rules: { 'img-alt': 'serious', 'link-text': 'off', 'color-contrast': { wcagLevel: 'AAA' } },
+    overrides: [
+      { files: 'src/legacy/**', level: 'A', rules: { 'img-alt': 'off', 'color-contrast': 'minor' } },
+      { files: ['**/*.scss'], rules: { 'color-contrast': 'on' } }
+    ]
+  };
+
+  it('normalizes the top-level settings', () => {
+    expect(resolveRuleSettings(config)).toEqual({
+      'img-alt': { enabled: true, severity: 'serious' },
+      'link-text': { enabled: false },
+      'color-contrast': { wcagLevel: 'AAA' }
+    });
+  });
+
+  it('merges matching overrides in order', () => {
+    expect(resolveRuleSettings(config, 'src/legacy/theme.scss')).toEqual({
+      'img-alt': { enabled: false, severity: 'serious' },
+      'link-text': { enabled: false },
+      'color-contrast': { enabled: true, severity: 'minor', wcagLevel: 'AAA' }
+    });
+  });
+
+  it('resolves the target level from the last matching override', () => {
+    expect(resolveTargetLevel(config, 'src/app/app.component.html')).toBe('AA');
+    expect(resolveTargetLevel(config, 'src/legacy/page.html')).toBe('A');
+  });
+});
@@ -0,0 +1,248 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { builtinModules, createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import ts from 'typescript';
+import { minimatch } from 'minimatch';
+import { logger } from '../utils/logger.js';
+import type { A11yRobotConfig, AccessibilityIssue, RuleSetting } from '../types/index.js';
+
+export interface LoadedConfig {
+  config: A11yRobotConfig;
+  path?: string;
+}
+
+export interface ResolvedRuleSetting {
+  enabled?: boolean;
+  severity?: AccessibilityIssue['severity'];
+  wcagLevel?: 'A' | 'AA' | 'AAA';
+}
+
+const severities = ['critical', 'serious', 'moderate', 'minor'];
+const levels = ['A', 'AA', 'AAA'];
+
+export class ConfigLoader {
+  private readonly configFileNames = [
+    '.a11yrobotrc.json',
+    '.a11yrobotrc',
+    'a11y-robot.config.ts',
+    'a11y-robot.config.mjs',
+    'a11y-robot.config.js'
+  ];
+
+  /**
+   * Loads the explicit `configPath` or discovers a config file starting at `projectPath`
+   * and walking up to the enclosing git repository root. No config means an empty one.
+   */
+  async load(projectPath?: string, configPath?: string): Promise<LoadedConfig> {
+    const file = configPath
+      ? path.resolve(projectPath || process.cwd(), configPath)
+      : await this.discover(path.resolve(projectPath || process.cwd()));
+
+    if (!file) {
+      logger.debug('No a11y-robot configuration file found, using defaults');
+      return { config: {} };
+    }
+
+    if (!await fs.pathExists(file)) {
+      throw new Error(`Configuration file not found: ${file}`);
+    }
+
+    const config = this.validate(await this.readConfigFile(file), file);
+    logger.info(`Loaded a11y-robot configuration from ${file}`);
+    return { config, path: file };
+  }
+
+  private async discover(startDir: string): Promise<string | undefined> {
+    let dir = startDir;
+
+    for (;;) {
+      for (const name of this.configFileNames) {
+        const candidate = path.join(dir, name);
+        if (await fs.pathExists(candidate)) return candidate;
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir || await fs.pathExists(path.join(dir, '.git'))) return undefined;
+      dir = parent;
+    }
+  }
+
+  private async readConfigFile(file: string): Promise<unknown> {
+    const extension = path.extname(file);
+
+    if (extension === '.json' || path.basename(file) === '.a11yrobotrc') {
+      try {
+        return await fs.readJson(file);
+      } catch (error) {
+        throw new Error(`Invalid JSON in configuration file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (extension === '.ts') {
+      return this.importTypeScriptConfig(file);
+    }
+
+    const module = await import(pathToFileURL(file).href);
+    return module.default ?? module.config;
+  }
+
+  /**
+   * Transpiles a TypeScript config and imports it from a `data:` URL, so nothing is written
+   * to the project. Its relative and package imports are resolved from the config's directory.
+   */
+  private async importTypeScriptConfig(file: string): Promise<unknown> {
+    const source = await fs.readFile(file, 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+      fileName: file
+    });
+
+    const code = this.resolveImports(outputText, file);
+    const module = await import(`data:text/javascript;base64,${Buffer.from(code).toString('base64')}`);
+    return module.default ?? module.config;
+  }
+
+  /** Rewrites the module specifiers of `code` into absolute URLs, as seen from `file`. */
+  private resolveImports(code: string, file: string): string {
+    const require = createRequire(file);
+    const resolve = (specifier: string) => {
+      if (specifier.startsWith('.')) return pathToFileURL(path.resolve(path.dirname(file), specifier)).href;
+      if (specifier.startsWith('node:') || builtinModules.includes(specifier)) return specifier;
+      try {
+        return pathToFileURL(require.resolve(specifier)).href;
+      } catch {
+        return specifier;
+      }
+    };
+
+    const specifiers: ts.StringLiteral[] = [];
+    const visit = (node: ts.Node): void => {
+      if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+          node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        specifiers.push(node.moduleSpecifier);
+      } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+          node.arguments.length > 0 && ts.isStringLiteral(node.arguments[0])) {
+        specifiers.push(node.arguments[0]);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.JS));
+
+    // Back to front, so earlier positions stay valid
+    let result = code;
+    for (const specifier of specifiers.reverse()) {
+      result = result.slice(0, specifier.getStart()) + JSON.stringify(resolve(specifier.text)) + result.slice(specifier.getEnd());
+    }
+    return result;
+  }
+
+  private validate(raw: unknown, file: string): A11yRobotConfig {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error(`Configuration in ${file} must be an object`);
+    }
+
+    const config = raw as A11yRobotConfig;
+    const fail = (message: string): never => {
+      throw new Error(`Invalid configuration in ${file}: ${message}`);
+    };
+
+    if (config.level !== undefined && !levels.includes(config.level)) {
+      fail(`"level" must be one of ${levels.join(', ')}`);
+    }
+
+    const validateRules = (rules: Record<string, RuleSetting> | undefined, where: string) => {
+      for (const [id, setting] of Object.entries(rules || {})) {
+        if (typeof setting === 'string') {
+          if (setting !== 'off' && setting !== 'on' && !severities.includes(setting)) {
+            fail(`${where}.${id} must be "off", "on", a severity or an object`);
+          }
+        } else if (!setting || typeof setting !== 'object') {
+          fail(`${where}.${id} must be "off", "on", a severity or an object`);
+        } else {
+          if (setting.severity !== undefined && !severities.includes(setting.severity)) {
+            fail(`${where}.${id}.severity must be one of ${severities.join(', ')}`);
+          }
+          if (setting.wcagLevel !== undefined && !levels.includes(setting.wcagLevel)) {
+            fail(`${where}.${id}.wcagLevel must be one of ${levels.join(', ')}`);
+          }
+        }
+      }
+    };
+
+    if (config.locales !== undefined &&
+        (!Array.isArray(config.locales) || config.locales.some(locale => typeof locale !== 'string'))) {
+      fail('"locales" must be an array of language tags');
+    }
+    for (const [locale, phrases] of Object.entries(config.genericLinkText || {})) {
+      if (!Array.isArray(phrases) || phrases.some(phrase => typeof phrase !== 'string')) {
+        fail(`genericLinkText.${locale} must be an array of strings`);
+      }
+    }
+
+    for (const [selector, contract] of Object.entries(config.components || {})) {
+      if (!contract || (contract.kind !== 'label' && contract.kind !== 'control')) {
+        fail(`components.${selector}.kind must be "label" or "control"`);
+      }
+      if (contract.nameInputs !== undefined &&
+          (!Array.isArray(contract.nameInputs) || contract.nameInputs.some(input => typeof input !== 'string'))) {
+        fail(`components.${selector}.nameInputs must be an array of input names`);
+      }
+    }
+
+    if (config.axePath !== undefined && (typeof config.axePath !== 'string' || !config.axePath.trim())) {
+      fail('"axePath" must be a path to an axe-core build');
+    }
+
+    validateRules(config.rules, 'rules');
+    (config.overrides || []).forEach((override, index) => {
+      if (!override.files || (Array.isArray(override.files) && override.files.length === 0)) {
+        fail(`overrides[${index}].files is required`);
+      }
+      if (override.level !== undefined && !levels.includes(override.level)) {
+        fail(`overrides[${index}].level must be one of ${levels.join(', ')}`);
+      }
+      validateRules(override.rules, `overrides[${index}].rules`);
+    });
+
+    return config;
+  }
+}
+
+function normalizeRuleSetting(setting: RuleSetting): ResolvedRuleSetting {
+  if (setting === 'off') return { enabled: false };
+  if (setting === 'on') return { enabled: true };
+  if (typeof setting === 'string') return { enabled: true, severity: setting };
+  return { ...setting };
+}
+
+function matchingOverrides(config: A11yRobotConfig, file?: string) {
+  if (!file) return [];
+  const normalizedFile = file.split(path.sep).join('/');
+  return (config.overrides || []).filter(override =>
+    (Array.isArray(override.files) ? override.files : [override.files])
+      .some(pattern => minimatch(normalizedFile, pattern, { dot: true }))
+  );
+}
+
+/**
+ * Merges the top-level rule settings with every override whose `files` globs match
+ * `file` (a path relative to the project), later overrides winning.
+ */
+export function resolveRuleSettings(config: A11yRobotConfig, file?: string): Record<string, ResolvedRuleSetting> {
+  const settings: Record<string, ResolvedRuleSetting> = {};
+
+  for (const rules of [config.rules, ...matchingOverrides(config, file).map(override => override.rules)]) {
+    for (const [id, setting] of Object.entries(rules || {})) {
+      settings[id] = { ...settings[id], ...normalizeRuleSetting(setting) };
+    }
+  }
+
+  return settings;
+}
+
+/** Target conformance level for `file`: the last matching override's level, else the top-level one. */
+export function resolveTargetLevel(config: A11yRobotConfig, file?: string): 'A' | 'AA' | 'AAA' | undefined {
+  const override = matchingOverrides(config, file).reverse().find(candidate => candidate.level);
+  return override?.level ?? config.level;
+}
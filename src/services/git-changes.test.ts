@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { GitChanges } from './git-changes.js';
+
+describe('GitChanges', () => {
+  let repo: string;
+  const git = (...args: string[]) => execFileSync('git', args, {
+    cwd: repo,
+    env: { ...process.env, GIT_AUTHOR_NAME: 'a11y', GIT_AUTHOR_EMAIL: 'a11y@example.com', GIT_COMMITTER_NAME: 'a11y', GIT_COMMITTER_EMAIL: 'a11y@example.com' }
+  });
+
+  beforeEach(async () => {
+    repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'a11y-robot-git-')));
+    git('init', '--quiet');
+    await fs.outputFile(path.join(repo, 'src/app.html'), 'one\ntwo\nthree\nfour\n');
+    await fs.outputFile(path.join(repo, 'src/removed.html'), 'gone\n');
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'initial');
+  });
+
+  afterEach(async () => {
+    await fs.remove(repo);
+  });
+
+  it('reports changed line ranges, new files and untracked files', async () => {
+    await fs.writeFile(path.join(repo, 'src/app.html'), 'one\nTWO\nthree\nfour\nfive\n');
+    await fs.remove(path.join(repo, 'src/removed.html'));
+    await fs.outputFile(path.join(repo, 'src/added.html'), 'new\n');
+    git('add', 'src/added.html');
+    await fs.outputFile(path.join(repo, 'src/untracked.html'), 'draft\n');
+
+    const changes = await new GitChanges().changedFiles(repo, 'HEAD');
+
+    expect(changes).toEqual(expect.arrayContaining([
+      { file: path.join(repo, 'src/app.html'), lines: [{ start: 2, end: 2 }, { start: 5, end: 5 }] },
+      { file: path.join(repo, 'src/added.html') },
+      { file: path.join(repo, 'src/untracked.html') }
+    ]));
+    expect(changes.map(change => change.file)).not.toContain(path.join(repo, 'src/removed.html'));
+  });
+
+  it('marks the lines around a deletion as changed', async () => {
+    await fs.writeFile(path.join(repo, 'src/app.html'), 'one\nfour\n');
+
+    const [change] = await new GitChanges().changedFiles(repo, 'HEAD');
+
+    expect(change).toEqual({ file: path.join(repo, 'src/app.html'), lines: [{ start: 1, end: 2 }] });
+  });
+
+  it('reads file names with spaces, quotes and non-ASCII characters', async () => {
+    const names = ['src/my page.html', 'src/say "hi".html', 'src/tab\there.html', 'src/über.html'];
+    for (const name of names) await fs.outputFile(path.join(repo, name), 'one\n');
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'names');
+    for (const name of names) await fs.writeFile(path.join(repo, name), 'one\ntwo\n');
+
+    const changes = await new GitChanges().changedFiles(repo, 'HEAD');
+
+    expect(changes).toEqual(names.map(name => ({ file: path.join(repo, name), lines: [{ start: 2, end: 2 }] })));
+  });
+
+  it.each([
+    ['diff.noprefix', 'true'],
+    ['diff.mnemonicPrefix', 'true'],
+    ['diff.relative', 'true']
+  ])('ignores the %s setting', async (key, value) => {
+    git('config', key, value);
+    await fs.writeFile(path.join(repo, 'src/app.html'), 'one\nTWO\nthree\nfour\n');
+
+    const changes = await new GitChanges().changedFiles(path.join(repo, 'src'), 'HEAD');
+
+    expect(changes).toEqual([{ file: path.join(repo, 'src/app.html'), lines: [{ start: 2, end: 2 }] }]);
+  });
+
+  it('reports renamed files under their new name', async () => {
+    git('mv', 'src/app.html', 'src/home page.html');
+    await fs.appendFile(path.join(repo, 'src/home page.html'), 'five\n');
+
+    const changes = await new GitChanges().changedFiles(repo, 'HEAD');
+
+    expect(changes).toContainEqual({ file: path.join(repo, 'src/home page.html'), lines: [{ start: 5, end: 5 }] });
+    expect(changes.map(change => change.file)).not.toContain(path.join(repo, 'src/app.html'));
+  });
+
+  it('rejects refs that are not commits', async () => {
+    await expect(new GitChanges().changedFiles(repo, 'no-such-branch')).rejects.toThrow('not a commit');
+    await expect(new GitChanges().changedFiles(repo, '--output=x')).rejects.toThrow('Invalid git ref');
+  });
+});
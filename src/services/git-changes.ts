@@ -0,0 +1,126 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { logger } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Inclusive 1-based line range in the current version of a file. */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface ChangedFile {
+  /** Absolute path of the file in the working tree, with symlinks resolved. */
+  file: string;
+  /** Changed lines; absent when the whole file is new. */
+  lines?: LineRange[];
+}
+
+/**
+ * Lists the files of a directory that differ from a git ref: committed, staged and
+ * unstaged changes plus untracked files, with the line ranges each change touches.
+ */
+export class GitChanges {
+  async changedFiles(directory: string, ref: string, logCollector?: string[]): Promise<ChangedFile[]> {
+    if (ref.startsWith('-')) {
+      throw new Error(`Invalid git ref: ${ref}`);
+    }
+
+    try {
+      await this.git(directory, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    } catch {
+      throw new Error(`Cannot compare with "${ref}": not a commit in the git repository of ${directory}`);
+    }
+
+    const root = await fs.realpath((await this.git(directory, ['rev-parse', '--show-toplevel'])).trim());
+    // Explicit prefixes and root-relative paths, whatever diff.noprefix, diff.mnemonicPrefix or diff.relative say
+    const diffArgs = ['--no-color', '--no-ext-diff', '--no-relative', '-M', ref, '--', '.'];
+    const status = await this.git(directory, ['diff', '-z', '--name-status', ...diffArgs]);
+    const diff = await this.git(directory, ['diff', '--src-prefix=a/', '--dst-prefix=b/', '--unified=0', ...diffArgs]);
+    const untracked = await this.git(directory, ['ls-files', '-z', '--others', '--exclude-standard', '--full-name', '--', '.']);
+
+    const hunks = this.parseHunks(diff);
+    const changes: ChangedFile[] = this.parseNameStatus(status).map(({ file, added }) => ({
+      file: path.resolve(root, file),
+      ...(added ? {} : { lines: hunks.get(file) ?? [] })
+    }));
+    for (const file of untracked.split('\0').filter(Boolean)) {
+      changes.push({ file: path.resolve(root, file) });
+    }
+
+    logger.info(`Found ${changes.length} files changed since ${ref}`);
+    if (logCollector) logCollector.push(`Found ${changes.length} files changed since ${ref}`);
+    return changes;
+  }
+
+  /**
+   * Parses `git diff -z --name-status` output into the files that still exist, noting
+   * which are new. Renames and copies are listed under their new path.
+   */
+  private parseNameStatus(output: string): Array<{ file: string; added: boolean }> {
+    const fields = output.split('\0');
+    const files: Array<{ file: string; added: boolean }> = [];
+
+    for (let i = 0; i < fields.length - 1; i += 2) {
+      const status = fields[i];
+      // Renames and copies list the old path first
+      if (/^[RC]/.test(status)) i++;
+      const file = fields[i + 1];
+      // Deleted files have nothing left to analyze
+      if (status !== 'D') files.push({ file, added: status === 'A' });
+    }
+
+    return files;
+  }
+
+  /** Parses `git diff --unified=0` output into added/modified line ranges per (new) file path. */
+  private parseHunks(diff: string): Map<string, LineRange[]> {
+    const hunks = new Map<string, LineRange[]>();
+    let current: LineRange[] | undefined;
+
+    for (const line of diff.split('\n')) {
+      if (line.startsWith('diff --git ')) {
+        current = undefined;
+      } else if (line.startsWith('+++ ')) {
+        // git ends the name with a tab when it contains a space
+        const name = this.unquote(line.slice('+++ '.length).replace(/\t$/, ''));
+        current = name.startsWith('b/') ? [] : undefined;
+        if (current) hunks.set(name.slice('b/'.length), current);
+      } else if (line.startsWith('@@') && current) {
+        const match = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+        if (!match) continue;
+        const start = Number(match[1]);
+        const count = match[2] === undefined ? 1 : Number(match[2]);
+        // A pure deletion touches the lines on either side of it
+        current.push(count === 0 ? { start: Math.max(start, 1), end: start + 1 } : { start, end: start + count - 1 });
+      }
+    }
+
+    return hunks;
+  }
+
+  /** Decodes a path git wrote as a C-style quoted string (for quotes, backslashes and control characters). */
+  private unquote(name: string): string {
+    if (!name.startsWith('"') || !name.endsWith('"')) return name;
+
+    const escapes: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13 };
+    const bytes: Buffer[] = [];
+    for (const [token, escaped] of name.slice(1, -1).matchAll(/\\([0-7]{3}|.)|[^\\]+/gs)) {
+      if (escaped === undefined) bytes.push(Buffer.from(token, 'utf8'));
+      else if (/^[0-7]{3}$/.test(escaped)) bytes.push(Buffer.from([parseInt(escaped, 8)]));
+      else bytes.push(escapes[escaped] !== undefined ? Buffer.from([escapes[escaped]]) : Buffer.from(escaped, 'utf8'));
+    }
+    return Buffer.concat(bytes).toString('utf8');
+  }
+
+  private async git(directory: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['-c', 'core.quotePath=false', ...args], {
+      cwd: directory,
+      maxBuffer: 64 * 1024 * 1024
+    });
+    return stdout;
+  }
+}
@@ -1,5 +1,6 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { getRuleById } from '../rules/index.js';
 import { logger } from '../utils/logger.js';
 import type { AnalysisResult, ReportGenerationOptions, AccessibilityIssue } from '../types/index.js';
 
@@ -49,6 +50,7 @@ export class ReportGenerator {
                 <p><strong>Generated:</strong> ${new Date(result.timestamp).toLocaleString()}</p>
                 ${result.projectPath ? `<p><strong>Project:</strong> ${this.escapeHtml(result.projectPath)}</p>` : ''}
                 ${result.url ? `<p><strong>URL:</strong> ${this.escapeHtml(result.url)}</p>` : ''}
+                ${result.axeVersion ? `<p><strong>axe-core:</strong> ${this.escapeHtml(result.axeVersion)}</p>` : ''}
             </div>
         </header>
 
@@ -75,6 +77,12 @@ export class ReportGenerator {
                     <h3>Minor</h3>
                     <div class="summary-number">${result.summary.minor}</div>
                 </div>
+                ${result.summary.suppressed ? `
+                <div class="summary-card suppressed">
+                    <h3>Suppressed</h3>
+                    <div class="summary-number">${result.summary.suppressed}</div>
+                </div>
+                ` : ''}
             </div>
         </section>
 
@@ -86,6 +94,16 @@ export class ReportGenerator {
             }
         </section>
 
+        ${result.suppressedIssues && result.suppressedIssues.length > 0 ? `
+        <section class="issues suppressed-issues">
+            <h2>Suppressed Issues (${result.suppressedIssues.length})</h2>
+            <p>These findings were suppressed by inline <code>a11y-robot-disable</code> comments and are listed with their justification for review.</p>
+            <div class="issues-list">
+                ${result.suppressedIssues.map(issue => this.generateIssueItem(issue, includeWcagLinks)).join('')}
+            </div>
+        </section>
+        ` : ''}
+
         <footer class="report-footer">
             <p>Report generated by <strong>A11y Robot</strong> - Accessibility Analysis Tool</p>
             <p>Based on WCAG 2.0 Guidelines</p>
@@ -123,7 +141,7 @@ export class ReportGenerator {
     return `
       <div class="issue-item ${issue.severity}">
         <div class="issue-header">
-          <h4 class="issue-title">${this.escapeHtml(issue.rule)}</h4>
+          <h4 class="issue-title">${this.escapeHtml(getRuleById(issue.rule)?.name || issue.rule)}</h4>
           <div class="issue-badges">
             <span class="severity-badge ${issue.severity}">${this.capitalizeFirst(issue.severity)}</span>
             <span class="wcag-badge level-${issue.wcagLevel.toLowerCase()}">${issue.wcagCriterion}</span>
@@ -136,9 +154,13 @@ export class ReportGenerator {
           ${issue.helpText ? `<p class="issue-help">${this.escapeHtml(issue.helpText)}</p>` : ''}
           
           <div class="issue-details">
-            ${issue.file ? `<p><strong>File:</strong> ${this.escapeHtml(issue.file)}${issue.line ? `:${issue.line}` : ''}</p>` : ''}
+            ${issue.file ? `<p><strong>File:</strong> ${this.escapeHtml(issue.file)}${issue.line ? `:${issue.line}` : ''}${issue.line && issue.column ? `:${issue.column}` : ''}</p>` : ''}
+            ${issue.scenario ? `<p><strong>Scenario:</strong> ${this.escapeHtml(issue.scenario)}, step ${issue.step}</p>` : ''}
+            ${issue.url ? `<p><strong>Page:</strong> ${this.escapeHtml(issue.url)}</p>` : ''}
             ${issue.element ? `<p><strong>Element:</strong> <code>${this.escapeHtml(issue.element)}</code></p>` : ''}
             ${issue.selector ? `<p><strong>Selector:</strong> <code>${this.escapeHtml(issue.selector)}</code></p>` : ''}
+            ${issue.fix?.diff ? `<div class="issue-fix"><p><strong>Suggested fix:</strong> ${this.escapeHtml(issue.fix.description)}</p><pre><code>${this.escapeHtml(issue.fix.diff)}</code></pre></div>` : ''}
+            ${issue.suppression ? `<p class="issue-suppression"><strong>Suppressed:</strong> ${this.escapeHtml(issue.suppression.justification)} (${this.escapeHtml(issue.suppression.file)}:${issue.suppression.line})</p>` : ''}
           </div>
           
           ${includeWcagLinks && issue.wcagUrl ? `
@@ -265,6 +287,7 @@ export class ReportGenerator {
       .summary-card.serious { background: #f39c12; }
       .summary-card.moderate { background: #f1c40f; }
       .summary-card.minor { background: #27ae60; }
+      .summary-card.suppressed { background: #7f8c8d; }
 
       .summary-card h3 {
         font-size: 1.2em;
@@ -330,6 +353,25 @@ export class ReportGenerator {
       .issue-item.moderate { border-left: 4px solid #f1c40f; }
       .issue-item.minor { border-left: 4px solid #27ae60; }
 
+      .suppressed-issues .issue-item {
+        opacity: 0.85;
+        border-left-color: #7f8c8d;
+      }
+
+      .issue-fix pre {
+        background: #f4f6f8;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        padding: 10px;
+        overflow-x: auto;
+        font-size: 0.9em;
+      }
+
+      .issue-suppression {
+        color: #555;
+        font-style: italic;
+      }
+
       .issue-header {
         display: flex;
         justify-content: space-between;
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ScenarioLoader } from './scenario-loader.js';
+
+describe('ScenarioLoader', () => {
+  const loader = new ScenarioLoader();
+
+  it('reads short and long form steps', () => {
+    const scenarios = loader.parse({
+      scenarios: [{
+        name: 'Checkout',
+        url: '/cart',
+        steps: [
+          { click: '#checkout' },
+          { fill: { selector: '#email', value: 'ada@example.com' } },
+          { press: 'Enter' },
+          { action: 'press', selector: '#search', key: 'Escape' },
+          { hover: '.menu' },
+          { waitFor: { url: '**/payment' } },
+          { goto: '/payment' },
+          { audit: 'form' },
+          { audit: true }
+        ]
+      }]
+    }, 'scenarios.json');
+
+    expect(scenarios).toEqual([{
+      name: 'Checkout',
+      url: '/cart',
+      steps: [
+        { action: 'click', selector: '#checkout' },
+        { action: 'fill', selector: '#email', value: 'ada@example.com' },
+        { action: 'press', key: 'Enter' },
+        { action: 'press', selector: '#search', key: 'Escape' },
+        { action: 'hover', selector: '.menu' },
+        { action: 'waitFor', url: '**/payment' },
+        { action: 'goto', url: '/payment' },
+        { action: 'audit', selector: 'form' },
+        { action: 'audit' }
+      ]
+    }]);
+  });
+
+  it('accepts a single scenario or a list', () => {
+    const scenario = { name: 'Home', steps: [{ audit: null }] };
+
+    expect(loader.parse(scenario, 'inline')).toEqual([{ name: 'Home', steps: [{ action: 'audit' }] }]);
+    expect(loader.parse([scenario, { ...scenario, name: 'Again' }], 'inline').map(parsed => parsed.name)).toEqual(['Home', 'Again']);
+  });
+
+  it.each([
+    ['no scenarios', [], 'No scenarios in inline'],
+    ['a missing name', { steps: [{ audit: null }] }, 'inline: scenarios[0].name is required'],
+    ['a blank name', { name: ' ', steps: [{ audit: null }] }, 'inline: scenarios[0].name is required'],
+    ['a duplicate name', [{ name: 'Home', steps: [{ audit: null }] }, { name: 'Home', steps: [{ audit: 'nav' }] }], 'inline: scenarios[1] has the same name as an earlier scenario (Home)'],
+    ['no steps', { name: 'Home', steps: [] }, 'inline: scenarios[0].steps must be a non-empty array'],
+    ['no audit checkpoint', { name: 'Home', steps: [{ click: '#menu' }] }, 'inline: scenarios[0] (Home) has no audit step'],
+    ['a step without an action', { name: 'Home', steps: [{ selector: '#menu' }] }, 'inline: scenarios[0].steps[0] needs an action'],
+    ['an unknown action', { name: 'Home', steps: [{ action: 'scroll', selector: '#menu' }] }, 'inline: scenarios[0].steps[0]: unknown action "scroll"'],
+    ['a click without a selector', { name: 'Home', steps: [{ action: 'click' }] }, 'inline: scenarios[0].steps[0]: "click" needs a string "selector"'],
+    ['a fill without a value', { name: 'Home', steps: [{ fill: '#email' }] }, 'inline: scenarios[0].steps[0]: "fill" needs a string "value"'],
+    ['a waitFor without a target', { name: 'Home', steps: [{ action: 'waitFor' }] }, 'inline: scenarios[0].steps[0]: "waitFor" needs a "selector" or a "url"']
+  ])('rejects %s', (_case, raw, message) => {
+    expect(() => loader.parse(raw, 'inline')).toThrow(message);
+  });
+
+  describe('loadFile', () => {
+    let projectPath: string;
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'a11y-robot-scenarios-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(projectPath);
+    });
+
+    it('reads YAML and JSON files relative to the project', async () => {
+      await fs.writeFile(path.join(projectPath, 'flows.yaml'), '- name: Menu\n  steps:\n    - click: "#menu"\n    - audit: nav\n');
+      await fs.writeJson(path.join(projectPath, 'flows.json'), { name: 'Home', steps: [{ audit: null }] });
+
+      expect(await loader.loadFile('flows.yaml', projectPath)).toEqual([
+        { name: 'Menu', steps: [{ action: 'click', selector: '#menu' }, { action: 'audit', selector: 'nav' }] }
+      ]);
+      expect(await loader.loadFile('flows.json', projectPath)).toEqual([{ name: 'Home', steps: [{ action: 'audit' }] }]);
+    });
+
+    it('names the file in errors', async () => {
+      const file = path.join(projectPath, 'flows.json');
+      await fs.writeFile(file, '{ "name": ');
+
+      await expect(loader.loadFile('flows.json', projectPath)).rejects.toThrow(`Invalid scenario file ${file}`);
+      await expect(loader.loadFile('missing.yaml', projectPath)).rejects.toThrow(`Scenario file not found: ${path.join(projectPath, 'missing.yaml')}`);
+
+      await fs.writeJson(file, { name: 'Home', steps: [{ click: '#menu' }] });
+      await expect(loader.loadFile('flows.json', projectPath)).rejects.toThrow(`${file}: scenarios[0] (Home) has no audit step`);
+    });
+  });
+});
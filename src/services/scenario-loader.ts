@@ -0,0 +1,138 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import type { UserFlowScenario, UserFlowStep } from '../types/index.js';
+
+const actions = ['goto', 'click', 'fill', 'press', 'hover', 'waitFor', 'audit'];
+
+/**
+ * Reads user-flow scenarios from JSON or YAML: a scenario, an array of scenarios or
+ * `{ scenarios: [...] }`. Steps are written either as `{ action: 'click', selector: '#menu' }`
+ * or in the short form `{ click: '#menu' }`, and are returned in the long form.
+ */
+export class ScenarioLoader {
+  /** Loads a scenario file; a relative path is resolved against `projectPath`. */
+  async loadFile(scenarioPath: string, projectPath?: string): Promise<UserFlowScenario[]> {
+    const file = path.resolve(projectPath || process.cwd(), scenarioPath);
+    if (!await fs.pathExists(file)) {
+      throw new Error(`Scenario file not found: ${file}`);
+    }
+
+    const content = await fs.readFile(file, 'utf8');
+    let raw: unknown;
+    try {
+      raw = /\.ya?ml$/i.test(file) ? yaml.load(content) : JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid scenario file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return this.parse(raw, file);
+  }
+
+  parse(raw: unknown, source: string): UserFlowScenario[] {
+    const list = Array.isArray(raw)
+      ? raw
+      : raw && typeof raw === 'object' && Array.isArray((raw as { scenarios?: unknown }).scenarios)
+        ? (raw as { scenarios: unknown[] }).scenarios
+        : [raw];
+
+    if (list.length === 0) {
+      throw new Error(`No scenarios in ${source}`);
+    }
+    const scenarios = list.map((scenario, index) => this.parseScenario(scenario, `${source}: scenarios[${index}]`));
+    // Issues name their scenario, so a name must identify one
+    scenarios.forEach((scenario, index) => {
+      if (scenarios.findIndex(other => other.name === scenario.name) < index) {
+        throw new Error(`${source}: scenarios[${index}] has the same name as an earlier scenario (${scenario.name})`);
+      }
+    });
+    return scenarios;
+  }
+
+  private parseScenario(raw: unknown, where: string): UserFlowScenario {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error(`${where} must be an object`);
+    }
+
+    const scenario = raw as Record<string, unknown>;
+    if (typeof scenario.name !== 'string' || !scenario.name.trim()) {
+      throw new Error(`${where}.name is required`);
+    }
+    if (scenario.url !== undefined && typeof scenario.url !== 'string') {
+      throw new Error(`${where}.url must be a string`);
+    }
+    if (!Array.isArray(scenario.steps) || scenario.steps.length === 0) {
+      throw new Error(`${where}.steps must be a non-empty array`);
+    }
+
+    const steps = scenario.steps.map((step, index) => this.parseStep(step, `${where}.steps[${index}]`));
+    if (!steps.some(step => step.action === 'audit')) {
+      throw new Error(`${where} (${scenario.name}) has no audit step`);
+    }
+
+    return {
+      name: scenario.name,
+      ...(typeof scenario.url === 'string' ? { url: scenario.url } : {}),
+      steps
+    };
+  }
+
+  private parseStep(raw: unknown, where: string): UserFlowStep {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error(`${where} must be an object`);
+    }
+
+    const fields = { ...raw as Record<string, unknown> };
+    if (fields.action === undefined) {
+      // Short form: the action is the key, its value the step's main argument or its fields
+      const action = Object.keys(fields).find(key => actions.includes(key));
+      if (!action) {
+        throw new Error(`${where} needs an action (${actions.join(', ')})`);
+      }
+      const argument = fields[action];
+      delete fields[action];
+      fields.action = action;
+      if (argument && typeof argument === 'object' && !Array.isArray(argument)) Object.assign(fields, argument);
+      else if (action === 'goto') fields.url = argument;
+      else if (action === 'press') fields.key = argument;
+      else if (action === 'audit') {
+        if (typeof argument === 'string') fields.selector = argument;
+      } else fields.selector = argument;
+    }
+
+    const string = (name: string, required: boolean) => {
+      const value = fields[name];
+      if (value === undefined && !required) return undefined;
+      if (typeof value !== 'string' || !value) {
+        throw new Error(`${where}: "${fields.action}" needs a string "${name}"`);
+      }
+      return value;
+    };
+    const selector = string('selector', ['click', 'fill', 'hover'].includes(String(fields.action)));
+
+    switch (fields.action) {
+      case 'goto':
+        return { action: 'goto', url: string('url', true)! };
+      case 'click':
+      case 'hover':
+        return { action: fields.action, selector: selector! };
+      case 'fill':
+        if (typeof fields.value !== 'string') {
+          throw new Error(`${where}: "fill" needs a string "value"`);
+        }
+        return { action: 'fill', selector: selector!, value: fields.value };
+      case 'press':
+        return { action: 'press', key: string('key', true)!, ...(selector ? { selector } : {}) };
+      case 'waitFor': {
+        const url = string('url', false);
+        if (!selector && !url) {
+          throw new Error(`${where}: "waitFor" needs a "selector" or a "url"`);
+        }
+        return { action: 'waitFor', ...(selector ? { selector } : {}), ...(url ? { url } : {}) };
+      }
+      case 'audit':
+        return { action: 'audit', ...(selector ? { selector } : {}) };
+      default:
+        throw new Error(`${where}: unknown action "${String(fields.action)}" (expected ${actions.join(', ')})`);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { SiteCrawler, type SiteCrawlerOptions } from './site-crawler.js';
+
+const options: SiteCrawlerOptions = { maxPages: 20, maxDepth: 3, userAgent: 'a11y-robot' };
+
+/** URLs in the order the crawler hands them out. */
+function drain(crawler: SiteCrawler): string[] {
+  const urls: string[] = [];
+  for (let target = crawler.next(); target; target = crawler.next()) urls.push(target.url);
+  return urls;
+}
+
+function robotsTxt(content: string) {
+  return jest.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(content, { status: 200 }));
+}
+
+describe('SiteCrawler.normalize', () => {
+  it('drops query, fragment and trailing slash but keeps hash routes', () => {
+    expect(SiteCrawler.normalize('https://example.com/orders/?page=2#top')).toBe('https://example.com/orders');
+    expect(SiteCrawler.normalize('/#/orders/', 'https://example.com')).toBe('https://example.com/#/orders');
+    expect(SiteCrawler.normalize('mailto:someone@example.com')).toBeUndefined();
+  });
+});
+
+describe('SiteCrawler', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('follows same-origin page links once each', () => {
+    const crawler = new SiteCrawler('https://example.com/', options);
+    crawler.add('https://example.com/', 0);
+    crawler.add('https://example.com/orders?page=2', 1);
+    crawler.add('https://example.com/orders#reviews', 1);
+    crawler.add('https://other.example.com/orders', 1);
+    crawler.add('http://example.com/about', 1);
+    crawler.add('https://example.com/terms.pdf', 1);
+    crawler.add('https://example.com/#/cart', 1);
+
+    expect(drain(crawler)).toEqual(['https://example.com/', 'https://example.com/orders', 'https://example.com/#/cart']);
+  });
+
+  it('loads explicit pages from other origins as given', () => {
+    const crawler = new SiteCrawler('https://example.com/', options);
+    crawler.add('https://example.com/', 0);
+    crawler.add('https://admin.example.com/users?tab=all', 0);
+
+    expect(drain(crawler)).toEqual(['https://example.com/', 'https://admin.example.com/users?tab=all']);
+  });
+
+  it('skips links past maxDepth or outside the include and exclude globs', () => {
+    const crawler = new SiteCrawler('https://example.com/', { ...options, maxDepth: 1, include: ['/products/**', '/#/**'], exclude: ['/products/*/delete'] });
+    crawler.add('https://example.com/', 0);
+    crawler.add('https://example.com/products/1', 1);
+    crawler.add('https://example.com/products/1/delete', 1);
+    crawler.add('https://example.com/about', 1);
+    crawler.add('https://example.com/#/products', 1);
+    crawler.add('https://example.com/products/1/reviews', 2);
+
+    expect(drain(crawler)).toEqual(['https://example.com/', 'https://example.com/products/1', 'https://example.com/#/products']);
+  });
+
+  it('stops after maxPages pages', () => {
+    const crawler = new SiteCrawler('https://example.com/', { ...options, maxPages: 2 });
+    crawler.add('https://example.com/', 0);
+    for (const page of ['a', 'b', 'c']) crawler.add(`https://example.com/${page}`, 1);
+
+    expect(drain(crawler)).toEqual(['https://example.com/', 'https://example.com/a']);
+    expect(crawler.next()).toBeUndefined();
+  });
+
+  it('does not queue the target of a redirect again', () => {
+    const crawler = new SiteCrawler('https://example.com/', options);
+    crawler.add('https://example.com/', 0);
+    crawler.markSeen('https://example.com/login/');
+    crawler.add('https://example.com/login', 1);
+
+    expect(drain(crawler)).toEqual(['https://example.com/']);
+  });
+
+  it('applies the robots.txt group for its user agent, longest rule first', async () => {
+    const fetch = robotsTxt([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: Googlebot',
+      'User-agent: a11y-robot',
+      'Disallow: /admin',
+      'Allow: /admin/help',
+      'Disallow: /*.php$'
+    ].join('\n'));
+    const crawler = new SiteCrawler('https://example.com/', options);
+    await crawler.loadRobotsTxt();
+    crawler.add('https://example.com/', 0);
+    for (const page of ['admin/users', 'admin/help/faq', 'search.php', 'search.php5', 'orders']) {
+      crawler.add(`https://example.com/${page}`, 1);
+    }
+
+    expect(fetch).toHaveBeenCalledWith('https://example.com/robots.txt', expect.anything());
+    expect(drain(crawler)).toEqual([
+      'https://example.com/',
+      'https://example.com/admin/help/faq',
+      'https://example.com/search.php5',
+      'https://example.com/orders'
+    ]);
+  });
+
+  it('lets explicit pages bypass robots.txt and crawls everything without one', async () => {
+    robotsTxt('User-agent: *\nDisallow: /private');
+    const restricted = new SiteCrawler('https://example.com/', options);
+    await restricted.loadRobotsTxt();
+    restricted.add('https://example.com/private/start', 0);
+    restricted.add('https://example.com/private/other', 1);
+    expect(drain(restricted)).toEqual(['https://example.com/private/start']);
+
+    jest.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('Not found', { status: 404 }));
+    const open = new SiteCrawler('https://example.com/', options);
+    await open.loadRobotsTxt();
+    open.add('https://example.com/private/other', 1);
+    expect(drain(open)).toEqual(['https://example.com/private/other']);
+  });
+});
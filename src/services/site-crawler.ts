@@ -0,0 +1,178 @@
+import { minimatch } from 'minimatch';
+import { logger } from '../utils/logger.js';
+
+export interface CrawlTarget {
+  url: string;
+  depth: number;
+}
+
+export interface SiteCrawlerOptions {
+  maxPages: number;
+  maxDepth: number;
+  /** Globs matched against the URL path; when given, only matching pages are crawled. */
+  include?: string[];
+  /** Globs matched against the URL path of pages that are never crawled. */
+  exclude?: string[];
+  /** User agent token whose robots.txt group applies, in addition to `*`. */
+  userAgent: string;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+// Links to downloads and assets rather than pages
+const nonPageExtension = /\.(pdf|zip|gz|tar|rar|7z|docx?|xlsx?|pptx?|csv|json|xml|txt|png|jpe?g|gif|svg|webp|ico|mp3|mp4|webm|mov|avi|woff2?|ttf|js|css|map)$/i;
+
+/**
+ * Breadth-first frontier of same-origin pages for dynamic analysis: normalizes URLs so
+ * query and fragment variants count once, applies include/exclude globs and robots.txt,
+ * and stops at `maxPages` pages and `maxDepth` links from the start page.
+ */
+export class SiteCrawler {
+  private readonly origin: string;
+  private readonly queue: CrawlTarget[] = [];
+  private readonly seen = new Set<string>();
+  private robotsRules: RobotsRule[] = [];
+  private visited = 0;
+
+  constructor(startUrl: string, private readonly options: SiteCrawlerOptions) {
+    this.origin = new URL(startUrl).origin;
+  }
+
+  /**
+   * Normalized form of `url` (resolved against `base`): without query and fragment, except
+   * hash-routing fragments like `#/orders`, and without a trailing slash. Undefined for
+   * URLs that are not http(s).
+   */
+  static normalize(url: string, base?: string): string | undefined {
+    let parsed: URL;
+    try {
+      parsed = new URL(url, base);
+    } catch {
+      return undefined;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return undefined;
+
+    const hashRoute = parsed.hash.startsWith('#/') ? parsed.hash.replace(/[?].*$/, '').replace(/(.)\/$/, '$1') : '';
+    parsed.search = '';
+    parsed.hash = '';
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    return `${parsed.href}${hashRoute}`;
+  }
+
+  /** Reads the site's robots.txt; a missing or unreadable file allows everything. */
+  async loadRobotsTxt(): Promise<void> {
+    const robotsUrl = `${this.origin}/robots.txt`;
+    try {
+      const response = await fetch(robotsUrl, { signal: AbortSignal.timeout(10000) });
+      if (!response.ok) {
+        logger.debug(`No robots.txt at ${robotsUrl} (HTTP ${response.status})`);
+        return;
+      }
+      this.robotsRules = this.parseRobotsTxt(await response.text());
+      logger.info(`Loaded ${this.robotsRules.length} robots.txt rules from ${robotsUrl}`);
+    } catch (error) {
+      logger.warn(`Failed to read ${robotsUrl}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Queues a page. Pages given explicitly (depth 0) bypass robots.txt and the URL
+   * patterns; discovered links must pass both and stay on the start page's origin.
+   */
+  add(url: string, depth: number): void {
+    const normalized = SiteCrawler.normalize(url);
+    if (!normalized || this.seen.has(normalized)) return;
+
+    if (depth > 0) {
+      const parsed = new URL(normalized);
+      if (parsed.origin !== this.origin || depth > this.options.maxDepth) return;
+      if (nonPageExtension.test(parsed.pathname)) return;
+      if (!this.inScope(`${parsed.pathname}${parsed.hash}`)) return;
+      if (!this.allowedByRobots(parsed.pathname)) {
+        logger.debug(`Skipping ${normalized}: disallowed by robots.txt`);
+        return;
+      }
+    }
+
+    this.seen.add(normalized);
+    // Explicit pages are loaded as given, query included
+    this.queue.push({ url: depth === 0 ? url : normalized, depth });
+  }
+
+  /** Marks a URL as visited without queueing it, e.g. the target of a redirect. */
+  markSeen(url: string): void {
+    const normalized = SiteCrawler.normalize(url);
+    if (normalized) this.seen.add(normalized);
+  }
+
+  next(): CrawlTarget | undefined {
+    if (this.visited >= this.options.maxPages) return undefined;
+    const target = this.queue.shift();
+    if (target) this.visited++;
+    return target;
+  }
+
+  private inScope(urlPath: string): boolean {
+    const matches = (patterns: string[]) => patterns.some(pattern => minimatch(urlPath, pattern, { dot: true }));
+    if (this.options.include?.length && !matches(this.options.include)) return false;
+    return !matches(this.options.exclude || []);
+  }
+
+  /** The longest matching rule wins; on a tie `Allow` does. */
+  private allowedByRobots(urlPath: string): boolean {
+    let best: RobotsRule | undefined;
+    for (const rule of this.robotsRules) {
+      if (!rule.pattern.test(urlPath)) continue;
+      if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) best = rule;
+    }
+    return best ? best.allow : true;
+  }
+
+  /** The rules of the group naming our user agent, else those of the `*` group. */
+  private parseRobotsTxt(content: string): RobotsRule[] {
+    const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+    let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+    let previousField = '';
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator < 0) continue;
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive User-agent lines share one group
+        if (!current || previousField !== 'user-agent') {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+      } else if ((field === 'allow' || field === 'disallow') && current && value) {
+        current.rules.push({ allow: field === 'allow', pattern: this.robotsPattern(value), length: value.length });
+      }
+      previousField = field;
+    }
+
+    const agent = this.options.userAgent.toLowerCase();
+    const group = groups.find(candidate => candidate.agents.some(name => name !== '*' && agent.includes(name)))
+      ?? groups.find(candidate => candidate.agents.includes('*'));
+    return group?.rules || [];
+  }
+
+  /** robots.txt paths are prefixes with `*` wildcards and an optional `$` end anchor. */
+  private robotsPattern(value: string): RegExp {
+    const anchored = value.endsWith('$');
+    const body = (anchored ? value.slice(0, -1) : value)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+  }
+}
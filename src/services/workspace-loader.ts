@@ -0,0 +1,133 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { glob } from 'glob';
+import { logger } from '../utils/logger.js';
+import type { WorkspaceProject } from '../types/index.js';
+
+interface ProjectDefinition {
+  name?: string;
+  projectType?: string;
+  root?: string;
+  sourceRoot?: string;
+  architect?: Record<string, TargetDefinition>;
+  targets?: Record<string, TargetDefinition>;
+}
+
+interface TargetDefinition {
+  options?: { index?: string | { input?: string } };
+}
+
+/**
+ * Discovers the applications and libraries of an Angular CLI (`angular.json`) or Nx
+ * (`nx.json` + `project.json`) workspace. Paths are relative to the workspace root.
+ */
+export class WorkspaceLoader {
+  private readonly projectJsonExcludes = ['node_modules/**', 'dist/**', 'tmp/**', '.angular/**', '.nx/**'];
+
+  /** The workspace's projects, or an empty list for a plain directory. */
+  async load(workspacePath: string, logCollector?: string[]): Promise<WorkspaceProject[]> {
+    const projects = new Map<string, WorkspaceProject>();
+
+    try {
+      const angularJson = path.join(workspacePath, 'angular.json');
+      if (await fs.pathExists(angularJson)) {
+        const workspace = await fs.readJson(angularJson) as { projects?: Record<string, ProjectDefinition | string> };
+        for (const [name, definition] of Object.entries(workspace.projects || {})) {
+          // Nx workspaces may point to a directory holding the project.json instead
+          const resolved = typeof definition === 'string'
+            ? await this.readProjectJson(workspacePath, path.join(definition, 'project.json'))
+            : definition;
+          if (!resolved) continue;
+          const root = typeof definition === 'string' ? { root: definition } : {};
+          projects.set(name, await this.toProject(workspacePath, name, { ...root, ...resolved }, ''));
+        }
+      }
+
+      const nxJson = path.join(workspacePath, 'nx.json');
+      const projectJsonFiles = await glob('**/project.json', { cwd: await fs.realpath(workspacePath), ignore: this.projectJsonExcludes });
+      if (await fs.pathExists(nxJson) || projectJsonFiles.length > 0) {
+        const layout = await fs.pathExists(nxJson)
+          ? ((await fs.readJson(nxJson)) as { workspaceLayout?: { appsDir?: string } }).workspaceLayout
+          : undefined;
+        const appsDir = layout?.appsDir || 'apps';
+
+        for (const file of projectJsonFiles.sort()) {
+          const definition = await this.readProjectJson(workspacePath, file);
+          if (!definition) continue;
+
+          const root = trimSlashes(path.dirname(file));
+          const name = definition.name || path.basename(root || workspacePath);
+          if (projects.has(name)) continue;
+
+          const defaultType = root === appsDir || root.startsWith(`${appsDir}/`) ? 'application' : 'library';
+          projects.set(name, await this.toProject(workspacePath, name, { root, ...definition }, defaultType));
+        }
+      }
+    } catch (error) {
+      logger.warn(`Failed to read workspace configuration in ${workspacePath}:`, error);
+      if (logCollector) logCollector.push(`Failed to read workspace configuration: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const result = [...projects.values()];
+    if (logCollector && result.length > 0) {
+      logCollector.push(`Found ${result.length} workspace projects: ${result.map(project => `${project.name} (${project.type})`).join(', ')}`);
+    }
+    return result;
+  }
+
+  /** The project a workspace-relative file belongs to: the one with the deepest matching root. */
+  projectOf(projects: WorkspaceProject[], file: string): WorkspaceProject | undefined {
+    const normalized = toPosix(file);
+    let owner: WorkspaceProject | undefined;
+    for (const project of projects) {
+      const inside = project.root === '' || normalized === project.root || normalized.startsWith(`${project.root}/`);
+      if (inside && (!owner || project.root.length > owner.root.length)) owner = project;
+    }
+    return owner;
+  }
+
+  private async readProjectJson(workspacePath: string, file: string): Promise<ProjectDefinition | undefined> {
+    try {
+      return await fs.readJson(path.join(workspacePath, file)) as ProjectDefinition;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable project configuration ${file}:`, error);
+      return undefined;
+    }
+  }
+
+  private async toProject(
+    workspacePath: string,
+    name: string,
+    definition: ProjectDefinition,
+    defaultType: '' | WorkspaceProject['type']
+  ): Promise<WorkspaceProject> {
+    const root = trimSlashes(definition.root ?? '');
+    const sourceRoot = trimSlashes(definition.sourceRoot ?? (root ? `${root}/src` : 'src'));
+    const type = definition.projectType === 'library' || definition.projectType === 'application'
+      ? definition.projectType
+      : defaultType || 'application';
+
+    const index = type === 'application' ? await this.findIndex(workspacePath, definition, sourceRoot) : undefined;
+    return { name, type, root, sourceRoot, ...(index ? { index } : {}) };
+  }
+
+  /** The build target's `index` option, else `<sourceRoot>/index.html` if it exists. */
+  private async findIndex(workspacePath: string, definition: ProjectDefinition, sourceRoot: string): Promise<string | undefined> {
+    const targets = definition.architect || definition.targets || {};
+    const option = targets.build?.options?.index;
+    const configured = typeof option === 'string' ? option : option?.input;
+    if (configured) return trimSlashes(configured);
+
+    const fallback = `${sourceRoot}/index.html`;
+    return await fs.pathExists(path.join(workspacePath, fallback)) ? fallback : undefined;
+  }
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join('/');
+}
+
+function trimSlashes(file: string): string {
+  const normalized = path.posix.normalize(toPosix(file)).replace(/^\/+|\/+$/g, '');
+  return normalized === '.' ? '' : normalized;
+}
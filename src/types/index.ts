@@ -1,3 +1,5 @@
+import type { TmplAstNode } from '@angular/compiler';
+
 export interface AccessibilityIssue {
   id: string;
   rule: string;
@@ -12,22 +14,122 @@ export interface AccessibilityIssue {
   file?: string;
   line?: number;
   column?: number;
+  /** Where the issue was found when it is reported elsewhere, e.g. the stylesheet rule behind a template element's issue. */
+  origin?: IssueOrigin;
+  component?: string;
+  componentSelector?: string;
+  /** Workspace project (from angular.json / project.json) the file belongs to. */
+  project?: string;
+  /** Dynamic analysis: the page the issue was found on. */
+  url?: string;
+  /** User-flow analysis: the scenario and the 1-based index of the audit step that found the issue. */
+  scenario?: string;
+  step?: number;
+  suppression?: IssueSuppression;
+  fix?: IssueFix;
   source: 'static' | 'dynamic';
 }
 
+/**
+ * A mechanical fix for an issue: text edits by file offset (files relative to the
+ * project) plus, once the analysis has read the files, a unified diff preview.
+ */
+export interface IssueFix {
+  description: string;
+  edits: FixEdit[];
+  diff?: string;
+}
+
+export interface FixEdit {
+  file: string;
+  start: number;
+  end: number;
+  text: string;
+  /** Hash of the file content the offsets refer to; stale edits are not applied. */
+  contentHash?: string;
+}
+
+export interface IssueOrigin {
+  file: string;
+  line?: number;
+}
+
+export interface IssueSuppression {
+  justification: string;
+  file: string;
+  line: number;
+}
+
 export interface AnalysisResult {
   issues: AccessibilityIssue[];
+  suppressedIssues?: AccessibilityIssue[];
   summary: {
     total: number;
     critical: number;
     serious: number;
     moderate: number;
     minor: number;
+    suppressed?: number;
   };
   analysisType: 'static' | 'dynamic';
   timestamp: string;
   projectPath?: string;
   url?: string;
+  configPath?: string;
+  /** Static analysis: files analyzed in this run vs. reused from the cache. */
+  files?: {
+    analyzed: number;
+    cached: number;
+  };
+  /** Static analysis restricted to changes since this git ref. */
+  changedSince?: string;
+  /** Static analysis of an Angular/Nx workspace: results per application and library. */
+  projects?: ProjectResult[];
+  /** Dynamic analysis: version of the axe-core build that produced the issues. */
+  axeVersion?: string;
+  /** Dynamic analysis: the pages analyzed, in order. */
+  pages?: string[];
+  /** User-flow analysis: the outcome of each scenario. */
+  flows?: FlowResult[];
+  /** Dynamic analysis with `keyboard`: the Tab order of each page. */
+  keyboard?: KeyboardAuditResult[];
+}
+
+export interface KeyboardAuditResult {
+  url: string;
+  focusOrder: FocusStop[];
+  /** Whether Tab went through the whole page; false after a keyboard trap or at `maxTabStops`. */
+  completed: boolean;
+}
+
+export interface FocusStop {
+  selector: string;
+  element: string;
+  /** Position in page coordinates, in CSS pixels. */
+  box: { x: number; y: number; width: number; height: number };
+}
+
+export interface FlowResult {
+  scenario: string;
+  /** Audit steps that ran. */
+  audits: number;
+  /** The 1-based index of the step that failed; the scenario's later steps did not run. */
+  failedStep?: number;
+  error?: string;
+}
+
+/** An application or library of an Angular CLI or Nx workspace; paths relative to the workspace. */
+export interface WorkspaceProject {
+  name: string;
+  type: 'application' | 'library';
+  root: string;
+  sourceRoot: string;
+  /** The application's index.html. */
+  index?: string;
+}
+
+export interface ProjectResult extends WorkspaceProject {
+  summary: AnalysisResult['summary'];
 }
 
 export interface WcagGuideline {
@@ -43,6 +145,19 @@ export interface StaticAnalysisOptions {
   projectPath: string;
   includePatterns?: string[];
   excludePatterns?: string[];
+  ruleCategories?: RuleCategory[];
+  wcagLevel?: 'A' | 'AA' | 'AAA';
+  configPath?: string;
+  /** Analyze only this project of an Angular/Nx workspace. */
+  project?: string;
+  /** Analyze only files changed since this git ref (commit, branch or tag), including uncommitted changes. */
+  changedSince?: string;
+  /** With `changedSince`, report only issues on added or modified lines. */
+  changedLinesOnly?: boolean;
+  /** Ignore cached results and analyze every file again (the cache is still refreshed). */
+  noCache?: boolean;
+  /** Worker threads analyzing files in parallel; 1 analyzes in-process. Defaults to CPU count - 1. */
+  concurrency?: number;
 }
 
 export interface DynamicAnalysisOptions {
@@ -50,6 +165,149 @@ export interface DynamicAnalysisOptions {
   pages?: string[];
   waitForSelector?: string;
   timeout?: number;
+  projectPath?: string;
+  configPath?: string;
+  /** Discover further pages by following same-origin links from `url` (and `pages`). */
+  crawl?: boolean;
+  /** Crawl: most pages to analyze, the start pages included. Defaults to 20. */
+  maxPages?: number;
+  /** Crawl: most links to follow from a start page. Defaults to 3. */
+  maxDepth?: number;
+  /** Crawl: globs for the URL path (e.g. `/products/**`); only matching pages are followed. */
+  includeUrls?: string[];
+  /** Crawl: globs for URL paths that are never followed (e.g. `/logout`). */
+  excludeUrls?: string[];
+  /** Signs the browser in before the first page is analyzed. */
+  auth?: DynamicAuthentication;
+  /** Also tab through each page to check focus order, traps, focus visibility and reachability. */
+  keyboard?: boolean;
+  /** Keyboard audit: most Tab presses per page. Defaults to 100. */
+  maxTabStops?: number;
+}
+
+export interface UserFlowOptions {
+  /** Scenarios to run; alternatively `scenarioPath`. */
+  scenarios?: UserFlowScenario[];
+  /** JSON or YAML scenario file, relative to `projectPath`. */
+  scenarioPath?: string;
+  /** Base URL that relative scenario URLs resolve against. */
+  url?: string;
+  timeout?: number;
+  projectPath?: string;
+  configPath?: string;
+  auth?: DynamicAuthentication;
+}
+
+/** Interactions that bring the application into the states to audit, run in one page. */
+export interface UserFlowScenario {
+  name: string;
+  /** Page opened before the first step. */
+  url?: string;
+  steps: UserFlowStep[];
+}
+
+export type UserFlowStep =
+  | { action: 'goto'; url: string }
+  | { action: 'click'; selector: string }
+  | { action: 'fill'; selector: string; value: string }
+  /** Presses `key` in `selector`, or in the focused element. */
+  | { action: 'press'; key: string; selector?: string }
+  | { action: 'hover'; selector: string }
+  /** Waits for `selector` to be visible and/or the URL (or glob) `url`. */
+  | { action: 'waitFor'; selector?: string; url?: string }
+  /** Runs axe on the current state, on `selector` only when given. */
+  | { action: 'audit'; selector?: string };
+
+/**
+ * How dynamic analysis authenticates; the browser session is set up once and shared by
+ * every page. Header, cookie and fill values may reference environment variables as
+ * `${env:NAME}`, and all of them are masked in logs and error messages.
+ */
+export interface DynamicAuthentication {
+  /** Playwright storage state file (cookies and local storage), relative to `projectPath`. */
+  storageState?: string;
+  /** Headers sent with every request to the analyzed site's origin. */
+  headers?: Record<string, string>;
+  /** Cookies for the analyzed site; without `domain` they apply to its origin. */
+  cookies?: AuthCookie[];
+  login?: LoginScript;
+}
+
+export interface AuthCookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+}
+
+/** A sign-in performed once before the analysis: open `url`, then run `steps` in order. */
+export interface LoginScript {
+  url: string;
+  steps: LoginStep[];
+}
+
+export type LoginStep =
+  | { action: 'fill'; selector: string; value: string }
+  | { action: 'click'; selector: string }
+  | { action: 'press'; selector: string; key: string }
+  | { action: 'waitForSelector'; selector: string }
+  /** `url` is the URL, or a glob for it, that the sign-in ends on. */
+  | { action: 'waitForUrl'; url: string };
+
+/**
+ * A rule setting in the project configuration: `'off'`/`'on'`, a severity
+ * (which also enables the rule), or an object overriding individual fields.
+ */
+export type RuleSetting =
+  | 'off'
+  | 'on'
+  | AccessibilityIssue['severity']
+  | {
+      enabled?: boolean;
+      severity?: AccessibilityIssue['severity'];
+      wcagLevel?: 'A' | 'AA' | 'AAA';
+    };
+
+export interface ConfigOverride {
+  files: string | string[];
+  level?: 'A' | 'AA' | 'AAA';
+  rules?: Record<string, RuleSetting>;
+}
+
+/**
+ * Contents of `.a11yrobotrc.json` / `a11y-robot.config.ts`. Rule ids are the static
+ * rule ids from `rules/index.ts` or axe-core rule ids for dynamic analysis.
+ */
+export interface A11yRobotConfig {
+  level?: 'A' | 'AA' | 'AAA';
+  rules?: Record<string, RuleSetting>;
+  overrides?: ConfigOverride[];
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  /** Languages of the application's content (e.g. `['en', 'de']`); defaults to `['en']`. */
+  locales?: string[];
+  /** Project-specific generic link texts by locale, added to the built-in ones. */
+  genericLinkText?: Record<string, string[]>;
+  /** Design-system components by element selector (e.g. `app-form-field`) and how they provide names. */
+  components?: Record<string, ComponentContract>;
+  /**
+   * Local axe-core build (e.g. `vendor/axe.min.js`, relative to the configuration file) injected by
+   * dynamic analysis instead of the bundled `axe-core` package.
+   */
+  axePath?: string;
+}
+
+/**
+ * How a custom component takes part in accessible names: a `label` component labels the
+ * form controls inside it, a `control` component is a form control that needs a name.
+ */
+export interface ComponentContract {
+  kind: 'label' | 'control';
+  /**
+   * Inputs that supply the name, e.g. `label` or `ariaLabel`. A label component without
+   * them labels its controls with its text content, like a native `<label>`.
+   */
+  nameInputs?: string[];
 }
 
 export interface ReportGenerationOptions {
@@ -58,6 +316,17 @@ export interface ReportGenerationOptions {
   includeWcagLinks?: boolean;
 }
 
+export interface FixOptions {
+  /** Static analysis result to fix; defaults to the most recent static analysis. */
+  result?: AnalysisResult;
+  /** Project the result's file paths are relative to; defaults to `result.projectPath`. */
+  projectPath?: string;
+  /** Only fix issues of these rule ids. */
+  rules?: string[];
+  /** Write the fixes to disk instead of only returning the diffs. */
+  apply?: boolean;
+}
+
 export interface WcagQueryOptions {
   criterion?: string;
   level?: 'A' | 'AA' | 'AAA';
@@ -66,7 +335,90 @@ export interface WcagQueryOptions {
 export interface AngularTemplate {
   file: string;
   content: string;
-  ast?: any;
+  ast?: TmplAstNode[];
+  elements?: TemplateElement[];
+  loops?: TemplateLoop[];
+  errors?: string[];
+}
+
+export interface TemplateAttribute {
+  name: string;
+  value?: string;
+  bound: boolean;
+  line: number;
+  column: number;
+}
+
+export interface TemplateEvent {
+  name: string;
+  handler: string;
+  line: number;
+  column: number;
+}
+
+export interface TemplateElement {
+  tagName: string;
+  attributes: TemplateAttribute[];
+  events: TemplateEvent[];
+  children: TemplateElement[];
+  parent?: TemplateElement;
+  textContent: string;
+  source: string;
+  line: number;
+  column: number;
+  /** Offsets of `source` (the start tag) within the file. */
+  start: number;
+  end: number;
+  hasAttribute(name: string): boolean;
+  getAttribute(name: string): string | undefined;
+}
+
+export interface TemplateLoop {
+  kind: 'ngFor' | 'for';
+  expression: string;
+  trackBy?: string;
+  source: string;
+  line: number;
+  column: number;
+  /** Offsets of `source` within the file. */
+  start: number;
+  end: number;
+}
+
+export interface AngularStylesheet {
+  file: string;
+  content: string;
+  rules?: StyleRule[];
+  /** SCSS variables (`$name`) and custom properties (`--name`) visible to the stylesheet. */
+  variables?: Record<string, string>;
+  /** Paths requested by `@use`/`@import`, as written. */
+  imports?: string[];
+  /** Project-relative files those imports (transitively) resolved to. */
+  importedFiles?: string[];
+  /** Source of the `@mixin` bodies defined in the stylesheet, by name. */
+  mixins?: Record<string, string>;
+  errors?: string[];
+}
+
+/** A rule with nested selectors resolved; `declarations` are its own, not its children's. */
+export interface StyleRule {
+  selector: string;
+  body: string;
+  declarations: StyleDeclaration[];
+  source: string;
+  line: number;
+  column: number;
+}
+
+export interface StyleDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+  /** Resolved selector list of the enclosing rule. */
+  selector: string;
+  source: string;
+  line: number;
+  column: number;
 }
 
 export interface AngularComponent {
@@ -74,7 +426,72 @@ export interface AngularComponent {
   content: string;
   template?: AngularTemplate;
   styles?: string[];
+  stylesheets?: AngularStylesheet[];
   className: string;
+  selector?: string;
+  templateUrl?: string;
+  styleUrls?: string[];
+  /** Offset of the closing brace of the component class in `content`. */
+  classEnd?: number;
+  /**
+   * The host element as declared by `host` metadata and `@HostBinding`/`@HostListener`
+   * members, positioned at the class name; absent when the component declares none.
+   */
+  host?: TemplateElement;
+}
+
+export type RuleCategory = 'html' | 'document' | 'angular' | 'material' | 'aria' | 'color' | 'keyboard' | 'semantic';
+
+/**
+ * What a rule's `check` receives: a template element, a component's host element,
+ * the application document, a loop (`*ngFor`/`@for`), a route, a single-selector style
+ * rule, a style declaration, or nothing statically checkable (`runtime`).
+ */
+export type RuleTarget = 'element' | 'host' | 'document' | 'loop' | 'route' | 'stylesheet' | 'declaration' | 'runtime';
+
+/** A route object from an Angular `Routes` array. */
+export interface AngularRoute {
+  path?: string;
+  /** Whether the route sets `title` (a string, resolver or expression). */
+  hasTitle: boolean;
+  /** The title when it is a string literal. */
+  title?: string;
+  component?: string;
+  loadComponent: boolean;
+  /** Whether the route has `children` or `loadChildren`. */
+  hasChildren: boolean;
+  outlet?: string;
+  parent?: AngularRoute;
+  /** The routes of the same array, this one included. */
+  siblings: AngularRoute[];
+  source: string;
+  line: number;
+  column: number;
+  start: number;
+  end: number;
+}
+
+/** Routes declared in one file and whether the project replaces the default TitleStrategy. */
+export interface RoutingContext {
+  routes: AngularRoute[];
+  customTitleStrategy: boolean;
+}
+
+/** An application's index.html and the template of the root component it bootstraps (the app shell). */
+export interface AppDocument {
+  index: AngularTemplate;
+  shell?: AngularTemplate;
+}
+
+export interface RuleContext {
+  file: string;
+  template?: AngularTemplate;
+  host?: TemplateElement;
+  document?: AppDocument;
+  routing?: RoutingContext;
+  stylesheet?: AngularStylesheet;
+  component?: AngularComponent;
+  config?: A11yRobotConfig;
 }
 
 export interface AccessibilityRule {
@@ -84,8 +501,13 @@ export interface AccessibilityRule {
   wcagCriterion: string;
   wcagLevel: 'A' | 'AA' | 'AAA';
   severity: 'critical' | 'serious' | 'moderate' | 'minor';
-  category: 'html' | 'angular' | 'aria' | 'color' | 'keyboard' | 'semantic';
-  check: (element: any, context: any) => boolean;
+  category: RuleCategory;
+  target: RuleTarget | RuleTarget[];
+  check: (element: any, context: RuleContext) => boolean;
+  /** Issue-specific explanation (e.g. the measured values) shown before `message`. */
+  detail?: (element: any, context: RuleContext) => string | undefined;
+  /** Safe mechanical fix for a failing node, when one exists. */
+  fix?: (element: any, context: RuleContext) => IssueFix | undefined;
   message: string;
   helpUrl: string;
-} 
\ No newline at end of file
+}
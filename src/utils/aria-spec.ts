@@ -0,0 +1,208 @@
+/**
+ * WAI-ARIA 1.2 roles and states/properties (plus the DPUB-ARIA and Graphics-ARIA roles).
+ * Role entries list the role-specific attributes they support, including inherited ones;
+ * global attributes are supported everywhere.
+ */
+interface RoleSpec {
+  /** Supported role-specific states and properties (space-separated, without `aria-`). */
+  supported?: string;
+  /** States and properties the role requires. */
+  required?: string;
+  /** Roles of which the element must own at least one. */
+  owned?: string;
+  /** Roles one of which must be the element's nearest ancestor with a role. */
+  context?: string;
+}
+
+// aria-description is from ARIA 1.3 but already supported by browsers and screen readers
+const globalAttributes = words(
+  'atomic busy controls current describedby description details disabled dropeffect errormessage flowto grabbed ' +
+  'haspopup hidden invalid keyshortcuts label labelledby live owns relevant roledescription'
+);
+
+const roleSpecificAttributes = words(
+  'activedescendant autocomplete checked colcount colindex colspan expanded level modal multiline multiselectable ' +
+  'orientation placeholder posinset pressed readonly required rowcount rowindex rowspan selected setsize sort ' +
+  'valuemax valuemin valuenow valuetext'
+);
+
+const cell = 'colindex colspan rowindex rowspan';
+const range = 'valuemax valuemin valuenow valuetext';
+const textbox = 'activedescendant autocomplete multiline placeholder readonly required';
+const checkbox = 'checked expanded readonly required';
+const menuitem = 'expanded posinset setsize';
+const menuItems = 'menuitem menuitemcheckbox menuitemradio group';
+
+const roles: Record<string, RoleSpec> = {
+  alert: { supported: 'expanded' },
+  alertdialog: { supported: 'modal' },
+  application: { supported: 'activedescendant expanded' },
+  article: { supported: 'posinset setsize' },
+  banner: {},
+  blockquote: {},
+  button: { supported: 'expanded pressed' },
+  caption: {},
+  cell: { supported: cell, context: 'row' },
+  checkbox: { supported: checkbox, required: 'checked' },
+  code: {},
+  columnheader: { supported: `${cell} expanded readonly required selected sort`, context: 'row' },
+  combobox: { supported: 'activedescendant autocomplete expanded readonly required', required: 'expanded' },
+  complementary: {},
+  contentinfo: {},
+  definition: {},
+  deletion: {},
+  dialog: { supported: 'modal' },
+  directory: {},
+  document: { supported: 'expanded' },
+  emphasis: {},
+  feed: { owned: 'article' },
+  figure: {},
+  form: {},
+  generic: {},
+  grid: { supported: 'activedescendant colcount multiselectable readonly rowcount', owned: 'row rowgroup' },
+  gridcell: { supported: `${cell} expanded readonly required selected`, context: 'row' },
+  group: { supported: 'activedescendant expanded' },
+  heading: { supported: 'level', required: 'level' },
+  img: {},
+  insertion: {},
+  link: { supported: 'expanded' },
+  list: { owned: 'listitem' },
+  listbox: { supported: 'activedescendant expanded multiselectable orientation readonly required', owned: 'option group' },
+  listitem: { supported: 'level posinset setsize', context: 'list directory' },
+  log: {},
+  main: {},
+  marquee: {},
+  math: {},
+  menu: { supported: 'activedescendant orientation', owned: menuItems },
+  menubar: { supported: 'activedescendant orientation', owned: menuItems },
+  menuitem: { supported: menuitem, context: 'menu menubar group' },
+  menuitemcheckbox: { supported: `${menuitem} checked`, required: 'checked', context: 'menu menubar group' },
+  menuitemradio: { supported: `${menuitem} checked`, required: 'checked', context: 'menu menubar group' },
+  meter: { supported: range },
+  navigation: {},
+  none: {},
+  note: {},
+  option: { supported: 'checked posinset selected setsize', context: 'listbox group' },
+  paragraph: {},
+  presentation: {},
+  progressbar: { supported: range },
+  radio: { supported: 'checked posinset setsize', required: 'checked' },
+  radiogroup: { supported: 'activedescendant readonly required', owned: 'radio' },
+  region: {},
+  row: { supported: 'activedescendant colindex expanded level posinset rowindex selected setsize', owned: 'cell columnheader gridcell rowheader', context: 'grid rowgroup table treegrid' },
+  rowgroup: { owned: 'row', context: 'grid table treegrid' },
+  rowheader: { supported: `${cell} expanded readonly required selected sort`, context: 'row' },
+  scrollbar: { supported: `orientation ${range}`, required: 'controls valuenow' },
+  search: {},
+  searchbox: { supported: textbox },
+  separator: { supported: `orientation ${range}` },
+  slider: { supported: `orientation readonly ${range}`, required: 'valuenow' },
+  spinbutton: { supported: `activedescendant readonly required ${range}` },
+  status: {},
+  strong: {},
+  subscript: {},
+  superscript: {},
+  switch: { supported: checkbox, required: 'checked' },
+  tab: { supported: 'expanded posinset selected setsize', context: 'tablist' },
+  table: { supported: 'colcount rowcount', owned: 'row rowgroup' },
+  tablist: { supported: 'activedescendant multiselectable orientation', owned: 'tab' },
+  tabpanel: {},
+  term: {},
+  textbox: { supported: textbox },
+  time: {},
+  timer: {},
+  toolbar: { supported: 'activedescendant orientation' },
+  tooltip: {},
+  tree: { supported: 'activedescendant multiselectable orientation required', owned: 'treeitem group' },
+  treegrid: { supported: 'activedescendant colcount multiselectable orientation readonly required rowcount', owned: 'row rowgroup' },
+  treeitem: { supported: 'checked expanded level posinset selected setsize', context: 'tree group' }
+};
+
+// Roles from the DPUB-ARIA and Graphics-ARIA modules: valid, but without role-specific data here
+const moduleRoles = new Set([
+  ...words(
+    'abstract acknowledgments afterword appendix backlink biblioentry bibliography biblioref chapter colophon ' +
+    'conclusion cover credit credits dedication endnote endnotes epigraph epilogue errata example footnote foreword ' +
+    'glossary glossref index introduction noteref notice pagebreak pagelist part preface prologue pullquote qna ' +
+    'subtitle tip toc'
+  ).map(role => `doc-${role}`),
+  'graphics-document', 'graphics-object', 'graphics-symbol'
+]);
+
+const abstractRoles = new Set(words('command composite input landmark range roletype section sectionhead select structure widget window'));
+
+function words(list: string): string[] {
+  return list.split(/\s+/).filter(Boolean);
+}
+
+function specOf(role: string): RoleSpec | undefined {
+  return Object.hasOwn(roles, role) ? roles[role] : undefined;
+}
+
+function prefixed(list: string | undefined): string[] {
+  return words(list || '').map(name => `aria-${name}`);
+}
+
+export function isValidRole(role: string): boolean {
+  return !!specOf(role) || moduleRoles.has(role);
+}
+
+export function isAbstractRole(role: string): boolean {
+  return abstractRoles.has(role);
+}
+
+/** Whether `name` (e.g. `aria-label`) is an ARIA state or property. */
+export function isAriaAttribute(name: string): boolean {
+  const bare = name.replace(/^aria-/, '');
+  return name.startsWith('aria-') && (globalAttributes.includes(bare) || roleSpecificAttributes.includes(bare));
+}
+
+/** Whether `role` supports `attribute`; roles without ARIA 1.2 data support everything. */
+export function roleSupportsAttribute(role: string, attribute: string): boolean {
+  const spec = specOf(role);
+  if (!spec || globalAttributes.includes(attribute.replace(/^aria-/, ''))) return true;
+  return prefixed(`${spec.supported || ''} ${spec.required || ''}`).includes(attribute);
+}
+
+export function requiredAttributes(role: string): string[] {
+  return prefixed(specOf(role)?.required);
+}
+
+export function requiredOwnedRoles(role: string): string[] {
+  return words(specOf(role)?.owned || '');
+}
+
+export function requiredContextRoles(role: string): string[] {
+  return words(specOf(role)?.context || '');
+}
+
+/** The ARIA attribute closest to a misspelled one, if any is within two edits. */
+export function suggestAriaAttribute(name: string): string | undefined {
+  return closestMatch(name, [...globalAttributes, ...roleSpecificAttributes].map(bare => `aria-${bare}`));
+}
+
+/** The role closest to a misspelled one, if any is within two edits. */
+export function suggestRole(role: string): string | undefined {
+  return closestMatch(role, Object.keys(roles));
+}
+
+function closestMatch(value: string, candidates: string[]): string | undefined {
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(value, candidate);
+    if (distance <= 2 && (!best || distance < best.distance)) best = { candidate, distance };
+  }
+  return best?.candidate;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,162 @@
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const namedColors: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1',
+  darkviolet: '9400d3', deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969',
+  dodgerblue: '1e90ff', firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff',
+  gainsboro: 'dcdcdc', ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080',
+  green: '008000', greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4',
+  indianred: 'cd5c5c', indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa',
+  lavenderblush: 'fff0f5', lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080',
+  lightcyan: 'e0ffff', lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3',
+  lightpink: 'ffb6c1', lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa',
+  lightslategray: '778899', lightslategrey: '778899', lightsteelblue: 'b0c4de', lightyellow: 'ffffe0',
+  lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6', magenta: 'ff00ff', maroon: '800000',
+  mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3', mediumpurple: '9370db',
+  mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+  orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+  pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+  sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+  skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+  springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+  whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32'
+};
+
+/**
+ * Parses a literal CSS color (hex, rgb(a), hsl(a), a named color or `transparent`).
+ * Anything that needs runtime context, such as `currentColor` or `inherit`, is undefined.
+ */
+export function parseColor(value: string): RgbaColor | undefined {
+  const text = value.trim().toLowerCase();
+
+  if (text === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  if (namedColors[text]) return parseHex(namedColors[text]);
+
+  const hex = text.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) return parseHex(hex[1]);
+
+  const fn = text.match(/^(rgba?|hsla?)\(\s*([^)]*)\)$/);
+  if (!fn) return undefined;
+
+  const parts = fn[2].split(/\s*[,/]\s*|\s+/).filter(Boolean);
+  if (parts.length < 3) return undefined;
+  const alpha = parts[3] !== undefined ? parseAlpha(parts[3]) : 1;
+
+  if (fn[1].startsWith('rgb')) {
+    const [r, g, b] = parts.slice(0, 3).map(part =>
+      part.endsWith('%') ? parseFloat(part) * 2.55 : parseFloat(part)
+    );
+    if ([r, g, b, alpha].some(Number.isNaN)) return undefined;
+    return { r: clamp(r, 255), g: clamp(g, 255), b: clamp(b, 255), a: alpha };
+  }
+
+  const [h, s, l] = [parseFloat(parts[0]), parseFloat(parts[1]) / 100, parseFloat(parts[2]) / 100];
+  if ([h, s, l, alpha].some(Number.isNaN)) return undefined;
+  return { ...hslToRgb(h, clamp(s, 1), clamp(l, 1)), a: alpha };
+}
+
+/** Composites a (possibly translucent) color over an opaque backdrop. */
+export function blend(color: RgbaColor, backdrop: RgbaColor): RgbaColor {
+  return {
+    r: color.r * color.a + backdrop.r * (1 - color.a),
+    g: color.g * color.a + backdrop.g * (1 - color.a),
+    b: color.b * color.a + backdrop.b * (1 - color.a),
+    a: 1
+  };
+}
+
+/** WCAG 2 relative luminance of an opaque color. */
+export function relativeLuminance(color: RgbaColor): number {
+  const channel = (value: number) => {
+    const srgb = value / 255;
+    return srgb <= 0.03928 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+/**
+ * WCAG 2 contrast ratio of a foreground over a background. A translucent background
+ * is assumed to sit on white; a translucent foreground is blended onto the background.
+ */
+export function contrastRatio(foreground: RgbaColor, background: RgbaColor): number {
+  const white = { r: 255, g: 255, b: 255, a: 1 };
+  const backdrop = background.a < 1 ? blend(background, white) : background;
+  const text = foreground.a < 1 ? blend(foreground, backdrop) : foreground;
+
+  const [lighter, darker] = [relativeLuminance(text), relativeLuminance(backdrop)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/** SCSS `lighten()`/`darken()`: shifts HSL lightness by `amount` (0-1, negative darkens). */
+export function adjustLightness(color: RgbaColor, amount: number): RgbaColor {
+  const [r, g, b] = [color.r / 255, color.g / 255, color.b / 255];
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  let hue = 0;
+  let saturation = 0;
+  if (delta > 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    hue = max === r ? 60 * (((g - b) / delta) % 6) : max === g ? 60 * ((b - r) / delta + 2) : 60 * ((r - g) / delta + 4);
+  }
+
+  return { ...hslToRgb(hue, saturation, clamp(lightness + amount, 1)), a: color.a };
+}
+
+export function formatColor(color: RgbaColor): string {
+  const hex = [color.r, color.g, color.b]
+    .map(channel => Math.round(channel).toString(16).padStart(2, '0'))
+    .join('');
+  return color.a < 1 ? `#${hex} at ${Math.round(color.a * 100)}% opacity` : `#${hex}`;
+}
+
+function parseHex(hex: string): RgbaColor {
+  const digits = hex.length <= 4 ? hex.split('').map(digit => digit + digit).join('') : hex;
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16),
+    a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+  };
+}
+
+function parseAlpha(value: string): number {
+  return value.endsWith('%') ? clamp(parseFloat(value) / 100, 1) : clamp(parseFloat(value), 1);
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): { r: number; g: number; b: number } {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const x = chroma * (1 - Math.abs((h % 2) - 1));
+  const [r, g, b] =
+    h < 1 ? [chroma, x, 0] :
+    h < 2 ? [x, chroma, 0] :
+    h < 3 ? [0, chroma, x] :
+    h < 4 ? [0, x, chroma] :
+    h < 5 ? [x, 0, chroma] : [chroma, 0, x];
+  const m = lightness - chroma / 2;
+  return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255 };
+}
+
+function clamp(value: number, max: number): number {
+  return Math.min(Math.max(value, 0), max);
+}
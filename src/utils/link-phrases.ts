@@ -0,0 +1,39 @@
+/**
+ * Link texts that say nothing about the destination, and phrases that warn about a link
+ * opening a new window, per language. Locales such as `de-AT` use their base language.
+ */
+const genericLinkText: Record<string, string[]> = {
+  en: ['click here', 'click', 'here', 'read more', 'more', 'learn more', 'more info', 'more information', 'details', 'link', 'this link', 'go', 'continue', 'this page'],
+  de: ['hier klicken', 'klicken sie hier', 'hier', 'mehr', 'weiterlesen', 'mehr lesen', 'mehr erfahren', 'mehr informationen', 'details', 'link', 'weiter'],
+  fr: ['cliquez ici', 'cliquer ici', 'ici', 'plus', 'en savoir plus', 'lire la suite', 'lire plus', 'détails', 'lien', 'suite'],
+  es: ['haga clic aquí', 'haz clic aquí', 'clic aquí', 'aquí', 'más', 'leer más', 'ver más', 'más información', 'saber más', 'detalles', 'enlace']
+};
+
+const newWindowWarnings: Record<string, RegExp> = {
+  en: /new (window|tab)|opens? (in )?(a )?new|external/i,
+  de: /neue[nms]? (fenster|tab)|extern/i,
+  fr: /nouvel(le)? (fenêtre|onglet)|externe/i,
+  es: /nueva (ventana|pestaña)|externo/i
+};
+
+function baseLanguage(locale: string): string {
+  return locale.toLowerCase().split(/[-_]/)[0];
+}
+
+/** Generic phrases of the given locales (lowercase), including project-specific additions. */
+export function getGenericLinkText(locales: string[], additions: Record<string, string[]> = {}): Set<string> {
+  const phrases = new Set<string>();
+  for (const language of new Set(locales.map(baseLanguage))) {
+    for (const phrase of genericLinkText[language] || []) phrases.add(phrase);
+  }
+  for (const [locale, extra] of Object.entries(additions)) {
+    if (!locales.map(baseLanguage).includes(baseLanguage(locale))) continue;
+    for (const phrase of extra) phrases.add(phrase.trim().toLowerCase());
+  }
+  return phrases;
+}
+
+/** Whether `text` warns, in one of the locales, that the link opens a new window. */
+export function hasNewWindowWarning(text: string, locales: string[]): boolean {
+  return locales.some(locale => newWindowWarnings[baseLanguage(locale)]?.test(text));
+}
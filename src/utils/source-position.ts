@@ -0,0 +1,21 @@
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Converts a zero-based character offset into a one-based line and column.
+ */
+export function getLineAndColumn(content: string, offset: number): SourcePosition {
+  let line = 1;
+  let lineStart = 0;
+
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+
+  return { line, column: offset - lineStart + 1 };
+}
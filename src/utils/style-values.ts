@@ -0,0 +1,217 @@
+import { adjustLightness, formatColor, parseColor, type RgbaColor } from './color.js';
+import { getMaterialPalette } from './material-palettes.js';
+
+interface Palette {
+  colors: Record<string, string>;
+  default: string;
+  lighter: string;
+  darker: string;
+}
+
+type StyleValue = string | Palette | undefined;
+
+const maxDepth = 10;
+
+/**
+ * Statically evaluates stylesheet values: SCSS variables (`$x`, `ns.$x`), CSS custom
+ * properties (`var(--x, fallback)`), Angular Material M2 palettes and a few SCSS color
+ * functions. Values that depend on runtime context resolve to undefined.
+ */
+export class StyleValueResolver {
+  /** `variables` holds SCSS variables keyed `$name` and custom properties keyed `--name`. */
+  constructor(private readonly variables: Record<string, string> = {}) {}
+
+  resolveColor(value: string): RgbaColor | undefined {
+    const resolved = this.evaluate(value, 0);
+    return typeof resolved === 'string' ? parseColor(resolved) : undefined;
+  }
+
+  /**
+   * The color of a `background` shorthand, or undefined when it also paints an image
+   * or gradient (whose colors behind the text are unknown).
+   */
+  resolveBackgroundColor(value: string): RgbaColor | undefined {
+    const tokens = splitTopLevel(value.replace(/!important/g, ''), /\s/);
+    if (tokens.some(token => /^(url|[\w-]*gradient|image-set)\(/i.test(token))) return undefined;
+    if (tokens.length === 1) return this.resolveColor(tokens[0]);
+
+    for (const token of tokens) {
+      const color = this.resolveColor(token);
+      if (color) return color;
+    }
+    return undefined;
+  }
+
+  /** A length in px (`px`, `pt`, and `rem`/`em` against a 16px root), or undefined. */
+  resolveLength(value: string): number | undefined {
+    const resolved = this.evaluate(value, 0);
+    const match = typeof resolved === 'string' ? resolved.match(/^(-?[\d.]+)(px|pt|rem|em)$/) : null;
+    if (!match) return undefined;
+
+    const amount = parseFloat(match[1]);
+    return match[2] === 'pt' ? amount * 4 / 3 : match[2] === 'px' ? amount : amount * 16;
+  }
+
+  private evaluate(raw: string, depth: number): StyleValue {
+    if (depth > maxDepth) return undefined;
+    const expression = raw.replace(/!(important|default|global)\b/g, '').trim();
+
+    const variable = expression.match(/^(?:([\w-]+)\.)?\$([\w-]+)$/);
+    if (variable) {
+      return this.evaluateVariable(variable[1], variable[2], depth);
+    }
+
+    const call = parseCall(expression);
+    if (call) {
+      return this.evaluateCall(call.name, call.args, depth);
+    }
+
+    return expression;
+  }
+
+  private evaluateVariable(namespace: string | undefined, name: string, depth: number): StyleValue {
+    const defined = this.variables[`$${name}`];
+    if (defined !== undefined && namespace !== 'mat') {
+      return this.evaluate(defined, depth + 1);
+    }
+
+    // mat.$indigo-palette / mat.$m2-indigo-palette, or the legacy $mat-indigo
+    const paletteName = namespace === 'mat'
+      ? name.match(/^(?:m2-)?([\w-]+)-palette$/)?.[1]
+      : name.match(/^mat-([\w-]+)$/)?.[1];
+    const colors = paletteName ? getMaterialPalette(paletteName) : undefined;
+    return colors ? { colors, default: '500', lighter: '100', darker: '700' } : undefined;
+  }
+
+  private evaluateCall(name: string, args: string[], depth: number): StyleValue {
+    const fn = name.replace(/^[\w-]+\./, '').toLowerCase();
+
+    switch (fn) {
+      case 'var': {
+        const defined = this.variables[args[0]?.trim() ?? ''];
+        if (defined !== undefined) return this.evaluate(defined, depth + 1);
+        return args.length > 1 ? this.evaluate(args.slice(1).join(','), depth + 1) : undefined;
+      }
+
+      case 'define-palette':
+      case 'm2-define-palette':
+      case 'mat-palette': {
+        const base = this.evaluate(args[0] ?? '', depth + 1);
+        if (!base || typeof base === 'string') return undefined;
+        return {
+          colors: base.colors,
+          default: this.hue(args[1]) ?? '500',
+          lighter: this.hue(args[2]) ?? '100',
+          darker: this.hue(args[3]) ?? '700'
+        };
+      }
+
+      case 'get-color-from-palette':
+      case 'm2-get-color-from-palette':
+      case 'mat-color':
+      case 'map-get':
+      case 'get': {
+        const palette = this.evaluate(args[0] ?? '', depth + 1);
+        if (!palette || typeof palette === 'string') return undefined;
+        const hue = this.hue(args[1]) ?? 'default';
+        const key = hue === 'default' || hue === 'lighter' || hue === 'darker' ? palette[hue] : hue;
+        const color = palette.colors[key];
+        const opacity = args[2] !== undefined ? parseFloat(args[2]) : 1;
+        if (!color || Number.isNaN(opacity)) return undefined;
+        return opacity < 1 ? this.withAlpha(color, opacity) : color;
+      }
+
+      case 'rgb':
+      case 'rgba':
+        // SCSS rgba($color, $alpha)
+        if (args.length === 2) {
+          const color = this.evaluate(args[0], depth + 1);
+          const alpha = this.evaluate(args[1], depth + 1);
+          return typeof color === 'string' && typeof alpha === 'string' ? this.withAlpha(color, parseFloat(alpha)) : undefined;
+        }
+        return this.rebuild(fn, args, depth);
+
+      case 'hsl':
+      case 'hsla':
+        return this.rebuild(fn, args, depth);
+
+      case 'lighten':
+      case 'darken': {
+        const color = this.evaluate(args[0] ?? '', depth + 1);
+        const parsed = typeof color === 'string' ? parseColor(color) : undefined;
+        const amount = parseFloat(args[1] ?? '') / 100;
+        if (!parsed || Number.isNaN(amount)) return undefined;
+        return this.toCss(adjustLightness(parsed, fn === 'lighten' ? amount : -amount));
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  /** Re-emits a color function with every argument evaluated (e.g. `rgb($r, $g, $b)`). */
+  private rebuild(fn: string, args: string[], depth: number): StyleValue {
+    const values = args.map(arg => this.evaluate(arg, depth + 1));
+    return values.every(value => typeof value === 'string') ? `${fn}(${values.join(', ')})` : undefined;
+  }
+
+  private withAlpha(color: string, alpha: number): string | undefined {
+    const parsed = parseColor(color);
+    return parsed && !Number.isNaN(alpha) ? this.toCss({ ...parsed, a: alpha }) : undefined;
+  }
+
+  private toCss(color: RgbaColor): string {
+    return color.a < 1
+      ? `rgba(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)}, ${color.a})`
+      : formatColor(color);
+  }
+
+  private hue(arg: string | undefined): string | undefined {
+    const hue = arg?.trim().replace(/^['"]|['"]$/g, '');
+    return hue || undefined;
+  }
+}
+
+/** Splits on `separator` outside of parentheses and quotes. */
+export function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && separator.test(char)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/** `name(args)` when the whole expression is a single function call. */
+function parseCall(expression: string): { name: string; args: string[] } | undefined {
+  const match = expression.match(/^([\w.-]+)\(/);
+  if (!match || !expression.endsWith(')')) return undefined;
+
+  const inner = expression.slice(match[0].length, -1);
+  // Reject `a(b) c(d)`: the opening parenthesis must close at the very end
+  let depth = 0;
+  for (const char of inner) {
+    if (char === '(') depth++;
+    if (char === ')' && --depth < 0) return undefined;
+  }
+
+  return { name: match[1], args: splitTopLevel(inner, /,/) };
+}
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { WorkerPool } from './worker-pool.js';
+
+/** A worker script as a data: URL. */
+const script = (source: string) => new URL(`data:text/javascript,${encodeURIComponent(`import { parentPort } from 'worker_threads';\n${source}`)}`);
+
+// Doubles numbers; exits on a negative one
+const doubler = script(`parentPort.on('message', value => {
+  if (value < 0) process.exit(3);
+  parentPort.postMessage(value * 2);
+});`);
+
+describe('WorkerPool', () => {
+  let pool: WorkerPool<number, number> | undefined;
+
+  afterEach(async () => {
+    await pool?.close();
+    pool = undefined;
+  });
+
+  it('runs tasks on its workers', async () => {
+    pool = new WorkerPool<number, number>(doubler, 2);
+
+    expect(await Promise.all([1, 2, 3, 4, 5].map(value => pool!.run(value)))).toEqual([2, 4, 6, 8, 10]);
+    expect(pool.failure).toBeUndefined();
+  });
+
+  it('fails only the task of a crashing worker and replaces it', async () => {
+    pool = new WorkerPool<number, number>(doubler, 1);
+    expect(await pool.run(1)).toBe(2);
+
+    await expect(pool.run(-1)).rejects.toThrow('Worker stopped with exit code 3');
+    expect(await pool.run(2)).toBe(4);
+  });
+
+  it('stops replacing workers after maxRestarts', async () => {
+    pool = new WorkerPool<number, number>(doubler, 1, undefined, 1);
+    expect(await pool.run(1)).toBe(2);
+    await expect(pool.run(-1)).rejects.toThrow('Worker stopped with exit code 3');
+    expect(await pool.run(2)).toBe(4);
+
+    await expect(pool.run(-2)).rejects.toThrow('Worker stopped with exit code 3');
+    expect(pool.failure?.message).toBe('Workers kept stopping, the last one with: Worker stopped with exit code 3');
+    await expect(pool.run(3)).rejects.toBe(pool.failure);
+  });
+
+  it('fails every task without respawning when the script does not load', async () => {
+    pool = new WorkerPool<number, number>(new URL('./missing-worker.js', import.meta.url), 2);
+
+    const results = await Promise.allSettled([1, 2, 3].map(value => pool!.run(value)));
+
+    expect(pool.failure?.message).toMatch(/^Worker failed to start: Cannot find module/);
+    expect(results).toEqual([1, 2, 3].map(() => ({ status: 'rejected', reason: pool!.failure })));
+  });
+
+  it('moves the task of a worker that failed to start to another worker', async () => {
+    // Only the first worker to start throws while loading
+    const flaky = script(`import { workerData } from 'worker_threads';
+if (Atomics.add(new Int32Array(workerData), 0, 1) === 0) throw new Error('not ready');
+parentPort.on('message', value => parentPort.postMessage(value * 2));`);
+    pool = new WorkerPool<number, number>(flaky, 2, new SharedArrayBuffer(4));
+
+    expect(await Promise.all([1, 2, 3].map(value => pool!.run(value)))).toEqual([2, 4, 6]);
+    expect(pool.failure).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { Worker } from 'worker_threads';
+
+interface Job<TTask, TResult> {
+  task: TTask;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A fixed-size pool of worker threads running one script that answers every task message
+ * with exactly one result message. A worker that crashes fails only the task it was running
+ * and is replaced, at most `maxRestarts` times. A worker that fails before answering its
+ * first task (e.g. a script that does not load) is not replaced and its task is queued
+ * again; once no worker is left, the pool has failed and every queued and later task
+ * rejects with `failure`.
+ */
+export class WorkerPool<TTask, TResult> {
+  private readonly workers = new Set<Worker>();
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, Job<TTask, TResult>>();
+  private readonly queue: Job<TTask, TResult>[] = [];
+  /** Workers that answered at least one task, so they started. */
+  private readonly started = new WeakSet<Worker>();
+  private restarts = 0;
+  private closed = false;
+  private error: Error | undefined;
+
+  constructor(
+    private readonly script: URL,
+    size: number,
+    private readonly workerData?: unknown,
+    private readonly maxRestarts = size
+  ) {
+    for (let i = 0; i < size; i++) {
+      this.idle.push(this.spawn());
+    }
+  }
+
+  /** Why the pool stopped running tasks before it was closed. */
+  get failure(): Error | undefined {
+    return this.error;
+  }
+
+  run(task: TTask): Promise<TResult> {
+    if (this.error) return Promise.reject(this.error);
+    if (this.closed) return Promise.reject(new Error('Worker pool is closed'));
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const job of this.queue.splice(0)) job.reject(new Error('Worker pool is closed'));
+    await Promise.all([...this.workers].map(worker => worker.terminate()));
+    this.workers.clear();
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(this.script, { workerData: this.workerData });
+    this.workers.add(worker);
+
+    worker.on('message', (result: TResult) => {
+      this.started.add(worker);
+      const job = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      job?.resolve(result);
+      this.dispatch();
+    });
+    worker.on('error', error => this.replace(worker, error));
+    worker.on('exit', code => this.replace(worker, new Error(`Worker stopped with exit code ${code}`)));
+
+    return worker;
+  }
+
+  private replace(worker: Worker, error: Error): void {
+    // 'error' is followed by 'exit'; only the first one counts
+    if (!this.workers.delete(worker)) return;
+
+    const job = this.running.get(worker);
+    this.running.delete(worker);
+    const index = this.idle.indexOf(worker);
+    if (index >= 0) this.idle.splice(index, 1);
+    if (this.closed) return;
+
+    if (!this.started.has(worker)) {
+      // Not the task's fault; another worker may still run it
+      if (job) this.queue.unshift(job);
+      if (this.workers.size === 0) this.fail(new Error(`Worker failed to start: ${error.message}`));
+      else this.dispatch();
+      return;
+    }
+
+    job?.reject(error);
+    if (this.restarts < this.maxRestarts) {
+      this.restarts++;
+      this.idle.push(this.spawn());
+      this.dispatch();
+    } else if (this.workers.size === 0) {
+      this.fail(new Error(`Workers kept stopping, the last one with: ${error.message}`));
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error = error;
+    for (const job of this.queue.splice(0)) job.reject(error);
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const job = this.queue.shift()!;
+      this.running.set(worker, job);
+      worker.postMessage(job.task);
+    }
+  }
+}